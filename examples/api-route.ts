@@ -21,6 +21,9 @@ interface RequestBody {
   previewOnly?: boolean;
 }
 
+// Queries are immutable, so one instance can be shared by concurrent requests
+const updater = new BatchUpdater(getFirestore());
+
 // Example: Next.js API Route
 export async function POST(request: Request) {
   try {
@@ -35,10 +38,7 @@ export async function POST(request: Request) {
       );
     }
 
-    const firestore = getFirestore();
-    const updater = new BatchUpdater(firestore);
-
-    // Build query
+    // Build query (each call returns a new query object)
     let query = updater.collection(collection);
 
     if (filters && Array.isArray(filters)) {
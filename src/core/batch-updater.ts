@@ -2,12 +2,26 @@
  * BatchUpdater - Core class for batch operations on Firestore
  */
 
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { randomUUID } from "crypto";
+import {
+  Filter,
+  AggregateField,
+  DocumentReference,
+  FieldValue,
+  FieldPath,
+} from "firebase-admin/firestore";
 import type {
   Firestore,
   Query,
   DocumentData,
   WhereFilterOp,
   QueryDocumentSnapshot,
+  BulkWriter,
+  SetOptions,
+  Precondition,
 } from "firebase-admin/firestore";
 
 import type {
@@ -15,16 +29,59 @@ import type {
   UpdateResult,
   PreviewResult,
   DocumentSnapshot,
-  WhereCondition,
+  FilterCondition,
   OrderByCondition,
   FieldValueResult,
+  FieldValuesResult,
+  StreamFieldsOptions,
   CreateDocumentInput,
   CreateOptions,
+  CreateConflictMode,
   CreateResult,
   UpsertOptions,
   UpsertResult,
   DeleteOptions,
   DeleteResult,
+  CopyOptions,
+  CopyResult,
+  MoveOptions,
+  MoveResult,
+  CopyConflictMode,
+  SoftDeleteOptions,
+  SoftDeleteMetadata,
+  SoftDeleteResult,
+  RestoreOptions,
+  RestoreResult,
+  ImportOptions,
+  ImportResult,
+  ExportOptions,
+  ExportResult,
+  BackupOptions,
+  BackupRef,
+  RollbackOptions,
+  RollbackResult,
+  RetryOptions,
+  ThrottleOptions,
+  BatchUpdaterOptions,
+  AbortPolicy,
+  PageCursor,
+  CheckpointOptions,
+  CheckpointRef,
+  ResumeOptions,
+  LogEntry,
+  LogCollectorOptions,
+  ProgressInfo,
+  DocumentPredicate,
+  DocumentTransform,
+  SerializedQuery,
+  SerializedMap,
+  SerializedOperation,
+  SerializedOperationOptions,
+  OperationType,
+  OperationDefinition,
+  OperationResult,
+  AggregateSpec,
+  AggregateResult,
 } from "../types";
 
 import {
@@ -33,109 +90,745 @@ import {
   mergeUpdateData,
   isValidUpdateData,
   createLogCollector,
+  or,
+  isCompositeCondition,
+  cloneCondition,
+  isEqualValue,
+  matchesConditions,
+  MAX_DISJUNCTION_VALUES,
+  planConditions,
+  filterSubQueryDocs,
+  chunkArray,
+  chunkString,
+  encodeValue,
+  decodeValue,
+  encodeConditions,
+  decodeConditions,
+  renameFieldTransform,
+  moveFieldTransform,
+  removeFieldsTransform,
+  inferRecordFormat,
+  readRecords,
+  toImportDocument,
+  toExportRecord,
+  toCsvCells,
+  formatCsvRow,
+  resolveRetryPolicy,
+  shouldRetryWrite,
+  isIdempotentData,
+  retryDelay,
+  sleep,
+  getErrorCode,
+  Throttle,
+  validateThrottleOptions,
 } from "../utils";
+import type { RetryPolicy } from "../utils";
+
+type LogCollector = ReturnType<typeof createLogCollector>;
+
+/**
+ * Field holding the deletion metadata (SoftDeleteMetadata) of archived documents
+ * Query it to select documents for restore(), e.g. where(`${SOFT_DELETE_FIELD}.runId`, "==", runId)
+ */
+export const SOFT_DELETE_FIELD = "_deleted";
+
+/**
+ * Page size used when documents are read in pages without a batchSize
+ */
+const DEFAULT_PAGE_SIZE = 500;
+
+/**
+ * Maximum number of writes Firestore accepts in one WriteBatch (atomic mode)
+ */
+const MAX_ATOMIC_WRITES = 500;
+
+/**
+ * Writes BulkWriter sends in one batch
+ */
+const BULK_WRITER_BATCH_SIZE = 20;
+
+/**
+ * gRPC status code Firestore returns when create() finds an existing document
+ */
+const ALREADY_EXISTS_CODE = 6;
+
+/**
+ * gRPC status code Firestore returns when a lastUpdateTime precondition fails
+ */
+const FAILED_PRECONDITION_CODE = 9;
+
+/**
+ * Subcollection of a Firestore backup document holding the before-images
+ */
+const BACKUP_ENTRIES_COLLECTION = "documents";
+
+/**
+ * Subcollection of a checkpoint document holding the parts of each finished page
+ */
+const CHECKPOINT_PAGES_COLLECTION = "pages";
+
+/**
+ * Characters of a checkpoint page or backup entry stored per document
+ * A character takes at most 3 bytes in UTF-8, which keeps a part below the 1 MiB document limit
+ */
+const PART_LENGTH = 250000;
+
+/**
+ * Checkpoint page or backup entry parts written per commit or read per query
+ * Parts can be up to 750 KB and a commit is limited to 10 MiB
+ */
+const PARTS_PER_REQUEST = 10;
+
+/**
+ * Operators that make Firestore order results by their field after the orderBy() fields
+ */
+const INEQUALITY_OPERATORS: WhereFilterOp[] = [
+  "<",
+  "<=",
+  ">",
+  ">=",
+  "!=",
+  "not-in",
+];
+
+/**
+ * Documents fetched in one read, plus requested IDs that do not exist
+ * @private
+ */
+interface DocumentPage {
+  docs: QueryDocumentSnapshot<DocumentData>[];
+  missingIds: string[];
+  rejectedCount: number; // Documents rejected by filter() (docs() mode only)
+  cursor?: PageCursor; // Position after this page (fetchPages() only)
+}
+
+/**
+ * Firestore queries needed to run the current conditions
+ * Conditions with too many values are split into several sub-queries
+ * @private
+ */
+interface QueryPlan {
+  queries: Query<DocumentData>[];
+  postFilters: ((doc: QueryDocumentSnapshot<DocumentData>) => boolean)[]; // Checks applied after fetching
+  disjoint: boolean; // Whether sub-queries never match the same document
+}
+
+/**
+ * Running counters shared by every BulkWriter used in one operation
+ * @private
+ */
+interface WriteState {
+  totalCount: number;
+  processedCount: number;
+  successCount: number;
+  failureCount: number;
+  skippedCount: number; // Documents skipped by a transform returning null
+  succeededIds: string[];
+  failedDocIds: string[];
+  missingDocIds: string[];
+  conflictedDocIds: string[]; // Documents changed since they were read (precondition "unchanged")
+  retriedCount: number; // Writes that succeeded only after retrying
+  failureReason?: string; // Why the atomic batch was not applied
+  throttle: Throttle | null; // Limiter of the operation (throttle option)
+  signal: AbortSignal | null; // Stops the operation when aborted (signal option)
+  abandon: boolean; // Drop writes not sent yet on abort (onAbort "abandon")
+  aborted: boolean; // Whether the signal stopped the operation
+  lastCursor?: PageCursor; // Position after the last finished page
+}
+
+/**
+ * Write methods shared by BulkWriter and WriteBatch
+ * Lets the same queueing code run in normal and atomic mode
+ * @private
+ */
+interface DocumentWriter {
+  create(ref: DocumentReference<DocumentData>, data: DocumentData): unknown;
+  set(
+    ref: DocumentReference<DocumentData>,
+    data: DocumentData,
+    options: SetOptions
+  ): unknown;
+  set(ref: DocumentReference<DocumentData>, data: DocumentData): unknown;
+  update(
+    ref: DocumentReference<DocumentData>,
+    data: DocumentData,
+    precondition?: Precondition
+  ): unknown;
+  delete(
+    ref: DocumentReference<DocumentData>,
+    precondition?: Precondition
+  ): unknown;
+}
+
+/**
+ * State of a document before an operation wrote it
+ * @private
+ */
+interface BackupEntry {
+  path: string; // Full document path
+  data?: DocumentData; // Undefined if the document did not exist
+}
+
+/**
+ * First record of a backup, describing the operation it was taken for
+ * @private
+ */
+interface BackupHeader {
+  operation: OperationType;
+  collection: string;
+  collectionGroup?: boolean;
+  createdAt: string;
+}
+
+/**
+ * Destination of the before-images saved by the backup option
+ * @private
+ */
+interface BackupWriter {
+  ref: BackupRef;
+  write(entries: BackupEntry[]): Promise<void>;
+}
+
+/**
+ * Progress saved by the checkpoint option after a finished page
+ * Counts are totals since the first run; ID lists and entries only cover the page
+ * @private
+ */
+interface CheckpointPage {
+  cursor?: PageCursor; // Position after the page
+  savedAt: string;
+  processedCount: number;
+  successCount: number;
+  failureCount: number;
+  skippedCount: number;
+  retriedCount: number;
+  succeededIds: string[];
+  failedDocIds: string[];
+  missingDocIds: string[];
+  conflictedDocIds: string[];
+  entries?: LogEntry[]; // Log entries of the page (log enabled only)
+}
+
+/**
+ * Lengths of the ID lists and log entries before a page, so the page's part can be saved
+ * @private
+ */
+type CheckpointMark = Record<
+  | "succeededIds"
+  | "failedDocIds"
+  | "missingDocIds"
+  | "conflictedDocIds"
+  | "entries",
+  number
+>;
+
+/**
+ * Destination of the progress saved by the checkpoint option
+ * @private
+ */
+interface CheckpointWriter {
+  ref: CheckpointRef;
+  save(page: CheckpointPage): Promise<void>;
+  complete(): Promise<void>;
+}
+
+/**
+ * Saved checkpoint, with its pages folded into the progress of all runs so far
+ * @private
+ */
+interface SavedCheckpoint {
+  operation: SerializedOperation;
+  startedAt: string;
+  completedAt?: string;
+  progress: CheckpointPage; // ID lists and entries of every saved page
+}
+
+/**
+ * Where resume() continues an operation, set on the query it rebuilds
+ * @private
+ */
+interface ResumePoint {
+  writer: CheckpointWriter;
+  startedAt: string;
+  progress: CheckpointPage;
+}
+
+/**
+ * Write recorded so it can be queued (again) on another writer
+ * @private
+ */
+type QueuedWrite = (writer: DocumentWriter) => unknown;
+
+/**
+ * Document of a subcollection below a document being copied or moved
+ * @private
+ */
+interface DescendantDocument {
+  path: string; // Path relative to the copied document (e.g., "orders/o1")
+  ref: DocumentReference<DocumentData>;
+  data: DocumentData;
+}
+
+/**
+ * One matched document being copied or moved, with its target
+ * @private
+ */
+interface DocumentTransfer {
+  doc: QueryDocumentSnapshot<DocumentData>;
+  targetRef: DocumentReference<DocumentData>;
+  data: DocumentData;
+  descendants: DescendantDocument[]; // Only with includeSubcollections
+  keptDescendants: Set<string>; // Paths of descendants whose existing target was kept ("skip" mode)
+}
+
+/**
+ * One write of a transfer, kept so it can be queued again when retried
+ * @private
+ */
+interface TransferWrite {
+  transfer: DocumentTransfer;
+  write: (bulkWriter: BulkWriter) => Promise<unknown>;
+  onExisting?: () => void; // Called instead of failing on ALREADY_EXISTS ("skip" mode subcollections)
+}
+
+/**
+ * Where a document being transferred is written, given its (transformed) data
+ * Throws when no target can be determined for the document
+ * @private
+ */
+type TransferTarget = (
+  doc: QueryDocumentSnapshot<DocumentData>,
+  data: DocumentData
+) => { ref: DocumentReference<DocumentData>; data: DocumentData };
+
+/**
+ * Query definition held by a BatchUpdater
+ * Frozen, so a query can be shared and reused safely
+ * @private
+ */
+interface QueryState {
+  readonly collectionPath?: string;
+  readonly isCollectionGroup: boolean;
+  readonly conditions: readonly FilterCondition[];
+  readonly orderByConditions: readonly OrderByCondition[];
+  readonly limitCount?: number;
+  readonly docIds?: readonly string[];
+  readonly predicates: readonly DocumentPredicate[];
+}
+
+/**
+ * Query state of a BatchUpdater without a collection
+ * Optional fields are listed so collection() clears them from the previous state
+ */
+const EMPTY_QUERY_STATE: QueryState = Object.freeze({
+  collectionPath: undefined,
+  isCollectionGroup: false,
+  conditions: Object.freeze([]),
+  orderByConditions: Object.freeze([]),
+  limitCount: undefined,
+  docIds: undefined,
+  predicates: Object.freeze([]),
+});
 
 /**
  * BatchUpdater class for efficient batch operations
+ *
+ * Query methods (collection, where, orderBy, limit, ...) never modify the
+ * instance they are called on. Each returns a new BatchUpdater, so a query
+ * can be stored, shared across concurrent requests, and reused for
+ * preview() and a later update() with the guarantee that both run the same query.
  */
 export class BatchUpdater {
-  private firestore: Firestore;
-  private collectionPath?: string;
-  private conditions: WhereCondition[] = [];
-  private orderByConditions: OrderByCondition[] = [];
-  private limitCount?: number;
+  private readonly firestore: Firestore;
+  private readonly options: BatchUpdaterOptions;
+  private state: QueryState = EMPTY_QUERY_STATE;
+  private resumePoint: ResumePoint | null = null;
 
   /**
    * Create a new BatchUpdater instance
    * @param firestore - Initialized Firestore instance from firebase-admin
+   * @param options - Defaults for every operation (e.g., throttle)
    */
-  constructor(firestore: Firestore) {
+  constructor(firestore: Firestore, options: BatchUpdaterOptions = {}) {
+    if (options.throttle && !(options.throttle instanceof Throttle)) {
+      validateThrottleOptions(options.throttle);
+    }
+
     this.firestore = firestore;
+    this.options = options;
   }
 
   /**
    * Select a collection to operate on
+   * Any previous query state is discarded
    * @param path - Collection path
-   * @returns This instance for chaining
+   * @returns New query for the collection
+   */
+  collection(path: string): BatchUpdater {
+    return this.withState({
+      ...EMPTY_QUERY_STATE,
+      collectionPath: path,
+    });
+  }
+
+  /**
+   * Select every collection with the given ID, regardless of its parent
+   * Document IDs in results and logs become full document paths
+   * @param collectionId - Collection ID (e.g., "orders" for users/{uid}/orders)
+   * @returns New query for the collection group
    */
-  collection(path: string): this {
-    this.collectionPath = path;
-    this.conditions = [];
-    this.orderByConditions = [];
-    this.limitCount = undefined;
-    return this;
+  collectionGroup(collectionId: string): BatchUpdater {
+    if (collectionId.includes("/")) {
+      throw new Error(
+        `Collection group ID must not contain "/": "${collectionId}"`
+      );
+    }
+    return this.withState({
+      ...EMPTY_QUERY_STATE,
+      collectionPath: collectionId,
+      isCollectionGroup: true,
+    });
   }
 
   /**
    * Add a where condition to filter documents
+   * Accepts either a field condition or an AND/OR group built with or()/and()
    * @param field - Field path
    * @param operator - Comparison operator
    * @param value - Value to compare
-   * @returns This instance for chaining
+   * @returns New query with the condition added
+   */
+  where(field: string, operator: WhereFilterOp, value: any): BatchUpdater;
+  where(condition: FilterCondition): BatchUpdater;
+  where(
+    fieldOrCondition: string | FilterCondition,
+    operator?: WhereFilterOp,
+    value?: any
+  ): BatchUpdater {
+    const condition: FilterCondition =
+      typeof fieldOrCondition === "string"
+        ? { field: fieldOrCondition, operator: operator!, value }
+        : fieldOrCondition;
+
+    return this.withState({
+      conditions: [...this.state.conditions, cloneCondition(condition)],
+    });
+  }
+
+  /**
+   * Add a group of conditions where at least one must match
+   * @param conditions - Field conditions or nested AND/OR groups
+   * @returns New query with the condition group added
+   */
+  whereAny(conditions: FilterCondition[]): BatchUpdater {
+    return this.where(or(...conditions));
+  }
+
+  /**
+   * Add a client-side filter for conditions Firestore queries cannot express
+   * Runs on every document returned by the query; only documents for which
+   * the predicate returns true are previewed, counted, logged and written
+   * @param predicate - Function receiving document data and reference
+   * @returns New query with the filter added
    */
-  where(field: string, operator: WhereFilterOp, value: any): this {
-    this.conditions.push({ field, operator, value });
-    return this;
+  filter(predicate: DocumentPredicate): BatchUpdater {
+    return this.withState({
+      predicates: [...this.state.predicates, predicate],
+    });
   }
 
   /**
    * Add an orderBy clause to sort documents
    * @param field - Field path to sort by
    * @param direction - Sort direction ('asc' or 'desc'), defaults to 'asc'
-   * @returns This instance for chaining
+   * @returns New query with the sort added
    */
-  orderBy(field: string, direction: "asc" | "desc" = "asc"): this {
-    this.orderByConditions.push({ field, direction });
-    return this;
+  orderBy(field: string, direction: "asc" | "desc" = "asc"): BatchUpdater {
+    return this.withState({
+      orderByConditions: [
+        ...this.state.orderByConditions,
+        Object.freeze({ field, direction }),
+      ],
+    });
   }
 
   /**
    * Limit the number of documents to process
    * @param count - Maximum number of documents
-   * @returns This instance for chaining
+   * @returns New query with the limit set
    */
-  limit(count: number): this {
-    this.limitCount = count;
-    return this;
+  limit(count: number): BatchUpdater {
+    return this.withState({ limitCount: count });
+  }
+
+  /**
+   * Target a known set of documents instead of a query
+   * Documents are read with getAll(); IDs that do not exist are reported as missing
+   * For collection groups, pass full document paths
+   * @param ids - Document IDs (or full document paths for collection groups)
+   * @returns New query for the documents
+   */
+  docs(ids: string[]): BatchUpdater {
+    if (!Array.isArray(ids) || ids.length === 0) {
+      throw new Error("Document IDs array must be non-empty");
+    }
+
+    for (const id of ids) {
+      if (typeof id !== "string" || id.length === 0) {
+        throw new Error("Each document ID must be a non-empty string");
+      }
+    }
+
+    return this.withState({ docIds: Array.from(new Set(ids)) });
+  }
+
+  /**
+   * Serialize the query definition to a JSON-safe object
+   * Values such as Timestamp, Date, GeoPoint, DocumentReference and FieldValue
+   * are encoded so BatchUpdater.fromJSON() restores them with their types
+   * @returns Serialized query
+   */
+  toJSON(): SerializedQuery {
+    this.validateSetup();
+
+    if (this.state.predicates.length > 0) {
+      throw new Error("Queries with filter() predicates cannot be serialized");
+    }
+
+    const json: SerializedQuery = { version: 1 };
+
+    if (this.state.isCollectionGroup) {
+      json.collectionGroup = this.state.collectionPath;
+    } else {
+      json.collection = this.state.collectionPath;
+    }
+    if (this.state.conditions.length > 0) {
+      json.where = encodeConditions(this.state.conditions);
+    }
+    if (this.state.orderByConditions.length > 0) {
+      json.orderBy = this.state.orderByConditions.map((o) => ({ ...o }));
+    }
+    if (this.state.limitCount !== undefined) {
+      json.limit = this.state.limitCount;
+    }
+    if (this.state.docIds) {
+      json.docs = [...this.state.docIds];
+    }
+
+    return json;
+  }
+
+  /**
+   * Serialize the query together with an operation to run on it
+   * @param definition - Operation and its data (update data or documents to create)
+   * @param options - Options to store with the operation (batchSize, log, atomic)
+   * @returns Serialized operation that can be run with BatchUpdater.runOperation()
+   */
+  toOperationJSON(
+    definition: OperationDefinition,
+    options?: SerializedOperation["options"]
+  ): SerializedOperation {
+    const json: SerializedOperation = {
+      ...this.toJSON(),
+      operation: definition.operation,
+    };
+
+    if ("data" in definition) {
+      json.data = encodeValue(definition.data) as SerializedMap;
+    } else if ("documents" in definition) {
+      json.documents = definition.documents.map((doc) => ({
+        id: doc.id,
+        data: encodeValue(doc.data) as SerializedMap,
+      }));
+    }
+    if (options) {
+      json.options = { ...options };
+    }
+
+    return json;
+  }
+
+  /**
+   * Restore a query from BatchUpdater.toJSON() output
+   * @param firestore - Firestore instance to run the query on
+   * @param json - Serialized query (object or JSON string)
+   * @param options - Defaults for operations on the query (e.g., throttle)
+   * @returns Restored query
+   */
+  static fromJSON(
+    firestore: Firestore,
+    json: SerializedQuery | string,
+    options: BatchUpdaterOptions = {}
+  ): BatchUpdater {
+    const query: SerializedQuery =
+      typeof json === "string" ? JSON.parse(json) : json;
+
+    if (query.version !== 1) {
+      throw new Error(`Unsupported query version: ${query.version}`);
+    }
+    if (!query.collection === !query.collectionGroup) {
+      throw new Error(
+        "Serialized query must have exactly one of collection or collectionGroup"
+      );
+    }
+
+    const updater = new BatchUpdater(firestore, options);
+    let result = query.collectionGroup
+      ? updater.collectionGroup(query.collectionGroup)
+      : updater.collection(query.collection!);
+
+    for (const condition of decodeConditions(query.where ?? [], firestore)) {
+      result = result.where(condition);
+    }
+    for (const orderBy of query.orderBy ?? []) {
+      result = result.orderBy(orderBy.field, orderBy.direction);
+    }
+    if (query.limit !== undefined) {
+      result = result.limit(query.limit);
+    }
+    if (query.docs) {
+      result = result.docs(query.docs);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run an operation from BatchUpdater.toOperationJSON() output
+   * @param firestore - Firestore instance to run the operation on
+   * @param json - Serialized operation (object or JSON string)
+   * @param options - Options merged over the stored options (e.g., progress callback)
+   * @returns Result of the operation
+   */
+  static async runOperation(
+    firestore: Firestore,
+    json: SerializedOperation | string,
+    options: UpdateOptions = {}
+  ): Promise<OperationResult> {
+    const definition: SerializedOperation =
+      typeof json === "string" ? JSON.parse(json) : json;
+    const query = BatchUpdater.fromJSON(firestore, definition);
+
+    return BatchUpdater.runDefinition(query, definition, {
+      ...definition.options,
+      ...options,
+    });
+  }
+
+  /**
+   * Run a serialized operation on its restored query
+   * Shared by runOperation() and resume()
+   * @private
+   */
+  private static async runDefinition(
+    query: BatchUpdater,
+    definition: SerializedOperation,
+    mergedOptions: UpdateOptions
+  ): Promise<OperationResult> {
+    const firestore = query.firestore;
+
+    switch (definition.operation) {
+      case "update":
+        return query.update(
+          decodeValue(definition.data ?? null, firestore),
+          mergedOptions
+        );
+      case "upsert":
+        if (definition.documents) {
+          return query.upsert(
+            definition.documents.map((doc) => ({
+              id: doc.id,
+              data: decodeValue(doc.data, firestore),
+            })),
+            mergedOptions
+          );
+        }
+        return query.upsert(
+          decodeValue(definition.data ?? null, firestore),
+          mergedOptions
+        );
+      case "delete":
+        return query.delete(mergedOptions);
+      case "create":
+        return query.create(
+          (definition.documents ?? []).map((doc) => ({
+            id: doc.id,
+            data: decodeValue(doc.data, firestore),
+          })),
+          mergedOptions
+        );
+      default:
+        throw new Error(
+          `Unsupported operation: ${(definition as SerializedOperation).operation}`
+        );
+    }
   }
 
   /**
    * Preview changes before executing update
-   * @param updateData - Data to update
+   * @param updateData - Data to update, or a transform as passed to updateWith()
    * @returns Preview result with affected count and samples
    */
-  async preview(updateData: Record<string, any>): Promise<PreviewResult> {
+  async preview(
+    updateData: Record<string, any> | DocumentTransform
+  ): Promise<PreviewResult> {
     this.validateSetup();
 
-    if (!isValidUpdateData(updateData)) {
+    const transform = typeof updateData === "function" ? updateData : null;
+
+    if (!transform && !isValidUpdateData(updateData)) {
       throw new Error("Update data must be a non-empty object");
     }
 
-    const query = this.buildQuery();
-    const snapshot = await query.get();
+    const page = await this.fetchAll();
+
+    if (!transform) {
+      const samples: DocumentSnapshot[] = page.docs
+        .slice(0, 10)
+        .map((doc) => this.toSnapshot(doc, updateData as Record<string, any>));
 
-    const affectedCount = snapshot.size;
-    const affectedFields = getAffectedFields(updateData);
+      return {
+        affectedCount: page.docs.length,
+        samples,
+        affectedFields: getAffectedFields(updateData),
+        missingDocIds: page.missingIds.length > 0 ? page.missingIds : undefined,
+      };
+    }
 
-    // Get up to 10 sample documents
+    // Computed data differs per document, so run the transform on every match
+    let affectedCount = 0;
+    let skippedCount = 0;
     const samples: DocumentSnapshot[] = [];
-    const sampleDocs = snapshot.docs.slice(0, 10);
+    const affectedFields = new Set<string>();
 
-    for (const doc of sampleDocs) {
-      const before = doc.data();
-      const after = mergeUpdateData(before, updateData);
+    for (const doc of page.docs) {
+      const data = transform(doc.data(), doc.ref);
 
-      samples.push({
-        id: doc.id,
-        before,
-        after,
-      });
+      if (data === null) {
+        skippedCount++;
+        continue;
+      }
+      if (!isValidUpdateData(data)) {
+        throw new Error(
+          `Transform must return a non-empty object or null (document "${this.docKey(doc.ref)}")`
+        );
+      }
+
+      affectedCount++;
+      getAffectedFields(data).forEach((field) => affectedFields.add(field));
+
+      // Get up to 10 sample documents
+      if (samples.length < 10) {
+        samples.push(this.toSnapshot(doc, data));
+      }
     }
 
     return {
       affectedCount,
       samples,
-      affectedFields,
+      affectedFields: Array.from(affectedFields),
+      missingDocIds: page.missingIds.length > 0 ? page.missingIds : undefined,
+      skippedCount,
     };
   }
 
@@ -150,222 +843,308 @@ export class BatchUpdater {
     options: UpdateOptions = {}
   ): Promise<UpdateResult & { logFilePath?: string }> {
     this.validateSetup();
+    this.validateAbort(options);
+    this.validatePrecondition(options);
+    this.validateCheckpoint(options);
 
     if (!isValidUpdateData(updateData)) {
       throw new Error("Update data must be a non-empty object");
     }
 
+    const backup = options.backup
+      ? await this.createBackup("update", options.backup)
+      : null;
+    const checkpoint = await this.createCheckpoint(
+      { operation: "update", data: updateData },
+      options
+    );
+
     // Initialize log collector if logging is enabled
     const logCollector = options.log?.enabled
-      ? createLogCollector("update", this.collectionPath!, this.conditions, updateData)
+      ? this.createLogCollector("update", updateData, {
+          backup: backup?.ref.path,
+          checkpoint: checkpoint?.ref.path,
+        })
       : null;
 
-    let successCount = 0;
-    let failureCount = 0;
-    let totalCount = 0;
-    const failedDocIds: string[] = [];
-
-    // Use pagination if batchSize is set
-    if (options.batchSize && options.batchSize > 0) {
-      // First, get total count for progress tracking
-      const countQuery = this.buildQuery();
-      const countSnapshot = await countQuery.count().get();
-      totalCount = countSnapshot.data().count;
-
-      if (totalCount === 0) {
-        const result: UpdateResult & { logFilePath?: string } = {
-          successCount: 0,
-          failureCount: 0,
-          totalCount: 0,
-        };
-
-        if (logCollector && options.log) {
-          result.logFilePath = logCollector.finalize(options.log);
-        }
-
-        return result;
-      }
+    const state = await this.writeMatches(
+      options,
+      logCollector,
+      (bulkWriter, doc) => {
+        bulkWriter.update(doc.ref, updateData);
+      },
+      backup,
+      checkpoint
+    );
 
-      let processedCount = 0;
-      let lastDoc: QueryDocumentSnapshot<DocumentData> | null = null;
+    const result: UpdateResult & { logFilePath?: string } = {
+      successCount: state.successCount,
+      failureCount: state.failureCount,
+      totalCount: state.totalCount,
+      retriedCount: options.retry ? state.retriedCount : undefined,
+      failedDocIds:
+        state.failedDocIds.length > 0 ? state.failedDocIds : undefined,
+      missingDocIds:
+        state.missingDocIds.length > 0 ? state.missingDocIds : undefined,
+      conflictedDocIds:
+        state.conflictedDocIds.length > 0 ? state.conflictedDocIds : undefined,
+      failureReason: state.failureReason,
+      aborted: state.aborted || undefined,
+      lastCursor: state.aborted ? state.lastCursor : undefined,
+      backupRef: backup?.ref,
+      checkpointRef: checkpoint?.ref,
+    };
 
-      while (true) {
-        // Build paginated query
-        let paginatedQuery = this.buildQuery().limit(options.batchSize);
-        if (lastDoc) {
-          paginatedQuery = paginatedQuery.startAfter(lastDoc);
-        }
+    // Write log file if enabled
+    if (logCollector && options.log) {
+      result.logFilePath = logCollector.finalize(options.log);
+    }
 
-        const snapshot = await paginatedQuery.get();
+    return result;
+  }
 
-        if (snapshot.empty) {
-          break;
-        }
+  /**
+   * Update each matching document with data computed from its current data
+   * @param transform - Returns the data to update, or null to skip the document
+   * @param options - Update options (e.g., progress callback, log options, batchSize for pagination)
+   * @returns Update result with success/failure/skipped counts and optional log file path
+   */
+  async updateWith(
+    transform: DocumentTransform,
+    options: UpdateOptions = {}
+  ): Promise<UpdateResult & { logFilePath?: string }> {
+    return this.writeTransformed("update", transform, options);
+  }
 
-        // Process this batch
-        const bulkWriter = this.firestore.bulkWriter();
-        const docIdMap = new Map<string, string>();
+  /**
+   * Rename a field, keeping it under the same parent
+   * Documents without the field are skipped
+   * @param from - Field path to rename (e.g., "userName" or "profile.userName")
+   * @param newName - New field name, without dots (e.g., "displayName")
+   * @param options - Update options (e.g., progress callback, log options, batchSize for pagination)
+   * @returns Update result with success/failure/skipped counts and optional log file path
+   */
+  async renameField(
+    from: string,
+    newName: string,
+    options: UpdateOptions = {}
+  ): Promise<UpdateResult & { logFilePath?: string }> {
+    this.validateSetup();
 
-        for (const doc of snapshot.docs) {
-          docIdMap.set(doc.ref.path, doc.id);
-        }
+    return this.writeTransformed(
+      "update",
+      renameFieldTransform(from, newName),
+      options,
+      `rename field "${from}" to "${newName}"`
+    );
+  }
 
-        bulkWriter.onWriteResult((ref) => {
-          successCount++;
-          processedCount++;
+  /**
+   * Move a field to another path (e.g., "address" into "profile.address")
+   * Documents without the field are skipped
+   * @param from - Field path to move
+   * @param to - Destination field path
+   * @param options - Update options (e.g., progress callback, log options, batchSize for pagination)
+   * @returns Update result with success/failure/skipped counts and optional log file path
+   */
+  async moveField(
+    from: string,
+    to: string,
+    options: UpdateOptions = {}
+  ): Promise<UpdateResult & { logFilePath?: string }> {
+    this.validateSetup();
 
-          const docId = docIdMap.get(ref.path) || ref.id;
-          logCollector?.addEntry(docId, "success");
+    return this.writeTransformed(
+      "update",
+      moveFieldTransform(from, to),
+      options,
+      `move field "${from}" to "${to}"`
+    );
+  }
 
-          if (options.onProgress) {
-            const progress = calculateProgress(processedCount, totalCount);
-            options.onProgress(progress);
-          }
-        });
-
-        bulkWriter.onWriteError((error) => {
-          failureCount++;
-          processedCount++;
-
-          const docId = error.documentRef?.id || "unknown";
-          failedDocIds.push(docId);
-          logCollector?.addEntry(docId, "failure", error.message);
-
-          if (options.onProgress) {
-            const progress = calculateProgress(processedCount, totalCount);
-            options.onProgress(progress);
-          }
-
-          return false;
-        });
-
-        for (const doc of snapshot.docs) {
-          bulkWriter.update(doc.ref, updateData);
-        }
+  /**
+   * Remove fields from matching documents
+   * Documents that have none of the fields are skipped
+   * @param fields - Field paths to remove
+   * @param options - Update options (e.g., progress callback, log options, batchSize for pagination)
+   * @returns Update result with success/failure/skipped counts and optional log file path
+   */
+  async removeFields(
+    fields: string[],
+    options: UpdateOptions = {}
+  ): Promise<UpdateResult & { logFilePath?: string }> {
+    this.validateSetup();
 
-        await bulkWriter.close();
+    return this.writeTransformed(
+      "update",
+      removeFieldsTransform(fields),
+      options,
+      `remove fields ${fields.map((f) => `"${f}"`).join(", ")}`
+    );
+  }
 
-        // Update cursor for next batch
-        lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  /**
+   * Count matching documents
+   * @returns Number of matching documents
+   */
+  async count(): Promise<number> {
+    const result = await this.aggregate({ count: { type: "count" } });
+    return result.count;
+  }
 
-        // If we got fewer docs than batchSize, we're done
-        if (snapshot.docs.length < options.batchSize) {
-          break;
-        }
-      }
-    } else {
-      // Original behavior: load all documents at once
-      const query = this.buildQuery();
-      const snapshot = await query.get();
+  /**
+   * Sum a numeric field over matching documents
+   * Non-numeric and missing values are ignored
+   * @param field - Field path to sum
+   * @returns Sum of the field values (0 if there are none)
+   */
+  async sum(field: string): Promise<number> {
+    const result = await this.aggregate({ sum: { type: "sum", field } });
+    return result.sum;
+  }
 
-      totalCount = snapshot.size;
+  /**
+   * Average a numeric field over matching documents
+   * Non-numeric and missing values are ignored
+   * @param field - Field path to average
+   * @returns Average of the field values (null if there are none)
+   */
+  async average(field: string): Promise<number | null> {
+    const result = await this.aggregate({
+      average: { type: "average", field },
+    });
+    return result.average;
+  }
 
-      if (totalCount === 0) {
-        const result: UpdateResult & { logFilePath?: string } = {
-          successCount: 0,
-          failureCount: 0,
-          totalCount: 0,
-        };
+  /**
+   * Compute several aggregations over matching documents at once
+   * Uses a Firestore aggregate query, which does not read the documents.
+   * Split "in" lists, filter() predicates and docs() cannot be aggregated
+   * server-side; those documents are read page by page and aggregated locally
+   * @param spec - Named aggregations, e.g. { users: { type: "count" }, total: { type: "sum", field: "balance" } }
+   * @returns Aggregation results keyed by name
+   */
+  async aggregate<T extends AggregateSpec>(
+    spec: T
+  ): Promise<AggregateResult<T>> {
+    this.validateSetup();
 
-        if (logCollector && options.log) {
-          result.logFilePath = logCollector.finalize(options.log);
-        }
+    const entries = Object.entries(spec);
+    if (entries.length === 0) {
+      throw new Error("Aggregate spec must have at least one aggregation");
+    }
 
-        return result;
+    const plan = this.state.docIds ? null : this.buildQueryPlan();
+
+    if (plan && plan.queries.length === 1 && plan.postFilters.length === 0) {
+      const fields: Record<string, AggregateField<any>> = {};
+      for (const [alias, aggregation] of entries) {
+        fields[alias] =
+          aggregation.type === "count"
+            ? AggregateField.count()
+            : aggregation.type === "sum"
+              ? AggregateField.sum(aggregation.field)
+              : AggregateField.average(aggregation.field);
       }
 
-      // Use BulkWriter for efficient batch operations (no 500 limit)
-      const bulkWriter = this.firestore.bulkWriter();
-
-      // Track progress
-      let processedCount = 0;
+      const snapshot = await plan.queries[0].aggregate(fields).get();
+      return snapshot.data() as AggregateResult<T>;
+    }
 
-      // Map to track document IDs for logging
-      const docIdMap = new Map<string, string>();
-      for (const doc of snapshot.docs) {
-        docIdMap.set(doc.ref.path, doc.id);
+    // Aggregate locally with the same semantics as Firestore
+    const fields = new Set<string>();
+    for (const [, aggregation] of entries) {
+      if (aggregation.type !== "count") {
+        fields.add(aggregation.field);
       }
+    }
 
-      // Set up success/failure callbacks
-      bulkWriter.onWriteResult((ref) => {
-        successCount++;
-        processedCount++;
-
-        const docId = docIdMap.get(ref.path) || ref.id;
-        logCollector?.addEntry(docId, "success");
-
-        if (options.onProgress) {
-          const progress = calculateProgress(processedCount, totalCount);
-          options.onProgress(progress);
-        }
-      });
-
-      bulkWriter.onWriteError((error) => {
-        failureCount++;
-        processedCount++;
+    let count = 0;
+    const sums = new Map<string, number>();
+    const numericCounts = new Map<string, number>();
 
-        // Extract document ID from error if available
-        const docId = error.documentRef?.id || "unknown";
-        failedDocIds.push(docId);
-        logCollector?.addEntry(docId, "failure", error.message);
+    for await (const page of this.fetchPages(DEFAULT_PAGE_SIZE)) {
+      count += page.docs.length;
 
-        if (options.onProgress) {
-          const progress = calculateProgress(processedCount, totalCount);
-          options.onProgress(progress);
+      for (const doc of page.docs) {
+        for (const field of fields) {
+          const value = doc.get(field);
+          if (typeof value === "number" && !Number.isNaN(value)) {
+            sums.set(field, (sums.get(field) ?? 0) + value);
+            numericCounts.set(field, (numericCounts.get(field) ?? 0) + 1);
+          }
         }
-
-        // Return false to not retry (we'll collect all errors)
-        return false;
-      });
-
-      // Queue all updates
-      for (const doc of snapshot.docs) {
-        bulkWriter.update(doc.ref, updateData);
       }
-
-      // Execute all updates
-      await bulkWriter.close();
     }
 
-    const result: UpdateResult & { logFilePath?: string } = {
-      successCount,
-      failureCount,
-      totalCount,
-      failedDocIds: failedDocIds.length > 0 ? failedDocIds : undefined,
-    };
-
-    // Write log file if enabled
-    if (logCollector && options.log) {
-      result.logFilePath = logCollector.finalize(options.log);
+    const result: Record<string, number | null> = {};
+    for (const [alias, aggregation] of entries) {
+      if (aggregation.type === "count") {
+        result[alias] = count;
+      } else if (aggregation.type === "sum") {
+        result[alias] = sums.get(aggregation.field) ?? 0;
+      } else {
+        const n = numericCounts.get(aggregation.field) ?? 0;
+        result[alias] = n > 0 ? sums.get(aggregation.field)! / n : null;
+      }
     }
 
-    return result;
+    return result as AggregateResult<T>;
   }
 
   /**
    * Get specific field values from matching documents
-   * @param fieldPath - Field path to retrieve
+   * Only the requested fields are fetched from Firestore (using select())
+   * @param fieldPath - Field path to retrieve, or an array of field paths
    * @returns Array of field values with document IDs
    */
-  async getFields(fieldPath: string): Promise<FieldValueResult[]> {
+  async getFields(fieldPath: string): Promise<FieldValueResult[]>;
+  async getFields(fieldPaths: string[]): Promise<FieldValuesResult[]>;
+  async getFields(
+    fieldPaths: string | string[]
+  ): Promise<FieldValueResult[] | FieldValuesResult[]> {
     this.validateSetup();
 
-    const query = this.buildQuery();
-    const snapshot = await query.get();
+    const fields = this.validateFieldPaths(fieldPaths);
+    const page = await this.fetchAll(fields);
 
-    const results: FieldValueResult[] = [];
+    return page.docs.map((doc) => this.toFieldResult(doc, fieldPaths)) as
+      | FieldValueResult[]
+      | FieldValuesResult[];
+  }
+
+  /**
+   * Stream specific field values from matching documents page by page
+   * Only one page of documents (batchSize) is held in memory at a time
+   * @param fieldPath - Field path to retrieve, or an array of field paths
+   * @param options - Stream options (batchSize per page, default 500)
+   * @returns Async iterator of field values with document IDs
+   */
+  streamFields(
+    fieldPath: string,
+    options?: StreamFieldsOptions
+  ): AsyncGenerator<FieldValueResult>;
+  streamFields(
+    fieldPaths: string[],
+    options?: StreamFieldsOptions
+  ): AsyncGenerator<FieldValuesResult>;
+  async *streamFields(
+    fieldPaths: string | string[],
+    options: StreamFieldsOptions = {}
+  ): AsyncGenerator<FieldValueResult | FieldValuesResult> {
+    this.validateSetup();
 
-    for (const doc of snapshot.docs) {
-      const data = doc.data();
-      const value = this.getNestedValue(data, fieldPath);
+    const fields = this.validateFieldPaths(fieldPaths);
+    const batchSize =
+      options.batchSize && options.batchSize > 0
+        ? options.batchSize
+        : DEFAULT_PAGE_SIZE;
 
-      results.push({
-        id: doc.id,
-        value,
-      });
+    for await (const page of this.fetchPages(batchSize, fields)) {
+      for (const doc of page.docs) {
+        yield this.toFieldResult(doc, fieldPaths);
+      }
     }
-
-    return results;
   }
 
   /**
@@ -379,6 +1158,13 @@ export class BatchUpdater {
     options: CreateOptions = {}
   ): Promise<CreateResult & { logFilePath?: string }> {
     this.validateSetup();
+    this.validateAbort(options);
+
+    if (this.state.isCollectionGroup) {
+      throw new Error(
+        "create() is not supported for collection groups. Use .collection() with a full path."
+      );
+    }
 
     if (!Array.isArray(documents) || documents.length === 0) {
       throw new Error("Documents array must be non-empty");
@@ -390,63 +1176,50 @@ export class BatchUpdater {
       }
     }
 
-    const totalCount = documents.length;
-    let successCount = 0;
-    let failureCount = 0;
-    const createdIds: string[] = [];
-    const failedDocIds: string[] = [];
+    const onConflict = options.onConflict ?? "fail";
+    if (!["fail", "skip", "overwrite", "merge"].includes(onConflict)) {
+      throw new Error(`Invalid onConflict option: "${onConflict}"`);
+    }
 
     // Initialize log collector if logging is enabled
     const logCollector = options.log?.enabled
-      ? createLogCollector("create", this.collectionPath!)
+      ? this.createLogCollector("create")
       : null;
 
-    const bulkWriter = this.firestore.bulkWriter();
-    const collection = this.firestore.collection(this.collectionPath!);
-
-    let processedCount = 0;
-
-    bulkWriter.onWriteResult((ref) => {
-      successCount++;
-      processedCount++;
-      createdIds.push(ref.id);
-      logCollector?.addEntry(ref.id, "success");
-
-      if (options.onProgress) {
-        const progress = calculateProgress(processedCount, totalCount);
-        options.onProgress(progress);
-      }
-    });
-
-    bulkWriter.onWriteError((error) => {
-      failureCount++;
-      processedCount++;
-
-      const docId = error.documentRef?.id || "unknown";
-      failedDocIds.push(docId);
-      logCollector?.addEntry(docId, "failure", error.message);
-
-      if (options.onProgress) {
-        const progress = calculateProgress(processedCount, totalCount);
-        options.onProgress(progress);
-      }
-
-      return false;
-    });
+    const state = this.createWriteState(
+      documents.length,
+      this.resolveThrottle(options),
+      options
+    );
 
-    for (const doc of documents) {
-      const docRef = doc.id ? collection.doc(doc.id) : collection.doc();
-      bulkWriter.create(docRef, doc.data);
+    if (options.atomic) {
+      this.validateAtomicCount(documents.length);
     }
 
-    await bulkWriter.close();
+    const { skippedIds, overwritten } = await this.createDocuments(
+      documents,
+      onConflict,
+      state,
+      options,
+      logCollector
+    );
+
+    const overwrittenIds = state.succeededIds.filter((id) =>
+      overwritten.has(id)
+    );
 
     const result: CreateResult & { logFilePath?: string } = {
-      successCount,
-      failureCount,
-      totalCount,
-      createdIds,
-      failedDocIds: failedDocIds.length > 0 ? failedDocIds : undefined,
+      successCount: state.successCount,
+      failureCount: state.failureCount,
+      totalCount: state.totalCount,
+      retriedCount: options.retry ? state.retriedCount : undefined,
+      createdIds: state.succeededIds.filter((id) => !overwritten.has(id)),
+      skippedIds: skippedIds.length > 0 ? skippedIds : undefined,
+      overwrittenIds: overwrittenIds.length > 0 ? overwrittenIds : undefined,
+      failedDocIds:
+        state.failedDocIds.length > 0 ? state.failedDocIds : undefined,
+      failureReason: state.failureReason,
+      aborted: state.aborted || undefined,
     };
 
     // Write log file if enabled
@@ -458,430 +1231,3930 @@ export class BatchUpdater {
   }
 
   /**
-   * Upsert documents matching query conditions
-   * Updates existing documents or creates them if they don't exist
-   * @param updateData - Data to set/merge
+   * Upsert documents matching query conditions, or a list of documents by ID
+   * With update data, merges into every matching document.
+   * With a document list, merges into existing documents and creates missing ones
+   * @param updateData - Data to set/merge, or documents with IDs to upsert
    * @param options - Upsert options (e.g., progress callback, log options, batchSize for pagination)
    * @returns Upsert result with success/failure counts and optional log file path
    */
   async upsert(
     updateData: Record<string, any>,
+    options?: UpsertOptions
+  ): Promise<UpsertResult & { logFilePath?: string }>;
+  async upsert(
+    documents: CreateDocumentInput[],
+    options?: UpsertOptions
+  ): Promise<UpsertResult & { logFilePath?: string }>;
+  async upsert(
+    updateData: Record<string, any> | CreateDocumentInput[],
     options: UpsertOptions = {}
   ): Promise<UpsertResult & { logFilePath?: string }> {
+    if (Array.isArray(updateData)) {
+      return this.upsertDocuments(updateData, options);
+    }
+
     this.validateSetup();
+    this.validateAbort(options);
+    this.validateCheckpoint(options);
 
     if (!isValidUpdateData(updateData)) {
       throw new Error("Update data must be a non-empty object");
     }
 
+    const backup = options.backup
+      ? await this.createBackup("upsert", options.backup)
+      : null;
+    const checkpoint = await this.createCheckpoint(
+      { operation: "upsert", data: updateData },
+      options
+    );
+
     // Initialize log collector if logging is enabled
     const logCollector = options.log?.enabled
-      ? createLogCollector("upsert", this.collectionPath!, this.conditions, updateData)
+      ? this.createLogCollector("upsert", updateData, {
+          backup: backup?.ref.path,
+          checkpoint: checkpoint?.ref.path,
+        })
       : null;
 
-    let successCount = 0;
-    let failureCount = 0;
-    let totalCount = 0;
-    const failedDocIds: string[] = [];
-
-    // Use pagination if batchSize is set
-    if (options.batchSize && options.batchSize > 0) {
-      // First, get total count for progress tracking
-      const countQuery = this.buildQuery();
-      const countSnapshot = await countQuery.count().get();
-      totalCount = countSnapshot.data().count;
-
-      if (totalCount === 0) {
-        const result: UpsertResult & { logFilePath?: string } = {
-          successCount: 0,
-          failureCount: 0,
-          totalCount: 0,
-        };
-
-        if (logCollector && options.log) {
-          result.logFilePath = logCollector.finalize(options.log);
-        }
+    const state = await this.writeMatches(
+      options,
+      logCollector,
+      (bulkWriter, doc) => {
+        bulkWriter.set(doc.ref, updateData, { merge: true });
+      },
+      backup,
+      checkpoint
+    );
 
-        return result;
-      }
+    const result: UpsertResult & { logFilePath?: string } = {
+      successCount: state.successCount,
+      failureCount: state.failureCount,
+      totalCount: state.totalCount,
+      retriedCount: options.retry ? state.retriedCount : undefined,
+      failedDocIds:
+        state.failedDocIds.length > 0 ? state.failedDocIds : undefined,
+      missingDocIds:
+        state.missingDocIds.length > 0 ? state.missingDocIds : undefined,
+      failureReason: state.failureReason,
+      aborted: state.aborted || undefined,
+      lastCursor: state.aborted ? state.lastCursor : undefined,
+      backupRef: backup?.ref,
+      checkpointRef: checkpoint?.ref,
+    };
 
-      let processedCount = 0;
-      let lastDoc: QueryDocumentSnapshot<DocumentData> | null = null;
+    // Write log file if enabled
+    if (logCollector && options.log) {
+      result.logFilePath = logCollector.finalize(options.log);
+    }
 
-      while (true) {
-        // Build paginated query
-        let paginatedQuery = this.buildQuery().limit(options.batchSize);
-        if (lastDoc) {
-          paginatedQuery = paginatedQuery.startAfter(lastDoc);
-        }
+    return result;
+  }
 
-        const snapshot = await paginatedQuery.get();
+  /**
+   * Merge a list of documents into the collection, creating missing ones
+   * Existing documents are looked up first so created and updated documents can be counted
+   * @private
+   */
+  private async upsertDocuments(
+    documents: CreateDocumentInput[],
+    options: UpsertOptions
+  ): Promise<UpsertResult & { logFilePath?: string }> {
+    this.validateSetup();
+    this.validateAbort(options);
 
-        if (snapshot.empty) {
-          break;
-        }
+    if (this.state.isCollectionGroup) {
+      throw new Error(
+        "upsert() with documents is not supported for collection groups. Use .collection() with a full path."
+      );
+    }
 
-        // Process this batch
-        const bulkWriter = this.firestore.bulkWriter();
-        const docIdMap = new Map<string, string>();
+    if (options.checkpoint) {
+      throw new Error(
+        "checkpoint is not supported for upsert() with documents"
+      );
+    }
 
-        for (const doc of snapshot.docs) {
-          docIdMap.set(doc.ref.path, doc.id);
-        }
+    if (documents.length === 0) {
+      throw new Error("Documents array must be non-empty");
+    }
 
-        bulkWriter.onWriteResult((ref) => {
-          successCount++;
-          processedCount++;
+    const ids = new Set<string>();
+    for (const doc of documents) {
+      if (typeof doc.id !== "string" || doc.id.length === 0) {
+        throw new Error("Each document must have an ID for upsert()");
+      }
+      if (ids.has(doc.id)) {
+        throw new Error(`Duplicate document ID: "${doc.id}"`);
+      }
+      if (!isValidUpdateData(doc.data)) {
+        throw new Error("Each document must have valid data");
+      }
+      ids.add(doc.id);
+    }
 
-          const docId = docIdMap.get(ref.path) || ref.id;
-          logCollector?.addEntry(docId, "success");
+    if (options.atomic) {
+      this.validateAtomicCount(documents.length);
+    }
 
-          if (options.onProgress) {
-            const progress = calculateProgress(processedCount, totalCount);
-            options.onProgress(progress);
-          }
-        });
+    const backup = options.backup
+      ? await this.createBackup("upsert", options.backup)
+      : null;
 
-        bulkWriter.onWriteError((error) => {
-          failureCount++;
-          processedCount++;
+    // Initialize log collector if logging is enabled
+    const logCollector = options.log?.enabled
+      ? this.createLogCollector("upsert", undefined, {
+          backup: backup?.ref.path,
+        })
+      : null;
 
-          const docId = error.documentRef?.id || "unknown";
-          failedDocIds.push(docId);
-          logCollector?.addEntry(docId, "failure", error.message);
+    const state = this.createWriteState(
+      documents.length,
+      this.resolveThrottle(options),
+      options
+    );
+    const missingIds = await this.mergeDocuments(
+      documents,
+      state,
+      options,
+      logCollector,
+      backup
+    );
 
-          if (options.onProgress) {
-            const progress = calculateProgress(processedCount, totalCount);
-            options.onProgress(progress);
-          }
+    const createdCount = state.succeededIds.filter((id) =>
+      missingIds.has(id)
+    ).length;
 
-          return false;
-        });
+    const result: UpsertResult & { logFilePath?: string } = {
+      successCount: state.successCount,
+      failureCount: state.failureCount,
+      totalCount: state.totalCount,
+      retriedCount: options.retry ? state.retriedCount : undefined,
+      createdCount,
+      updatedCount: state.successCount - createdCount,
+      failedDocIds:
+        state.failedDocIds.length > 0 ? state.failedDocIds : undefined,
+      failureReason: state.failureReason,
+      aborted: state.aborted || undefined,
+      lastCursor: state.aborted ? state.lastCursor : undefined,
+      backupRef: backup?.ref,
+    };
 
-        for (const doc of snapshot.docs) {
-          bulkWriter.set(doc.ref, updateData, { merge: true });
-        }
+    // Write log file if enabled
+    if (logCollector && options.log) {
+      result.logFilePath = logCollector.finalize(options.log);
+    }
 
-        await bulkWriter.close();
+    return result;
+  }
 
-        // Update cursor for next batch
-        lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  /**
+   * Create documents from a list, handling existing IDs according to onConflict
+   * Shared by create() and import()
+   * @returns IDs of skipped documents and of existing documents that were written
+   * @private
+   */
+  private async createDocuments(
+    documents: CreateDocumentInput[],
+    onConflict: CreateConflictMode,
+    state: WriteState,
+    options: {
+      onProgress?: (progress: ProgressInfo) => void;
+      atomic?: boolean;
+      retry?: RetryOptions;
+    },
+    logCollector: LogCollector | null
+  ): Promise<{ skippedIds: string[]; overwritten: Set<string> }> {
+    const collection = this.firestore.collection(this.state.collectionPath!);
+    const refs = documents.map((doc) =>
+      doc.id ? collection.doc(doc.id) : collection.doc()
+    );
 
-        // If we got fewer docs than batchSize, we're done
-        if (snapshot.docs.length < options.batchSize) {
+    // Documents with a custom ID may already exist (auto-generated IDs cannot)
+    const existing = new Set<string>();
+    if (onConflict !== "fail") {
+      const customRefs = refs.filter((_, i) => documents[i].id);
+      for (const chunk of chunkArray(customRefs, DEFAULT_PAGE_SIZE)) {
+        if (state.signal?.aborted) {
           break;
         }
-      }
-    } else {
-      // Original behavior: load all documents at once
-      const query = this.buildQuery();
-      const snapshot = await query.get();
-
-      totalCount = snapshot.size;
-
-      if (totalCount === 0) {
-        const result: UpsertResult & { logFilePath?: string } = {
-          successCount: 0,
-          failureCount: 0,
-          totalCount: 0,
-        };
-
-        if (logCollector && options.log) {
-          result.logFilePath = logCollector.finalize(options.log);
+        const snapshots = await this.firestore.getAll(...chunk, {
+          fieldMask: [],
+        });
+        for (const snapshot of snapshots) {
+          if (snapshot.exists) {
+            existing.add(snapshot.ref.path);
+          }
         }
-
-        return result;
       }
+    }
 
-      const bulkWriter = this.firestore.bulkWriter();
-
-      let processedCount = 0;
+    const skippedIds: string[] = [];
+    const overwritten = new Set<string>();
+
+    // Overwritten documents get their own log status
+    const createLog: LogCollector | null = logCollector && {
+      ...logCollector,
+      addEntry: (docId, status, error) =>
+        logCollector.addEntry(
+          docId,
+          status === "success" && overwritten.has(docId)
+            ? "overwritten"
+            : status,
+          error
+        ),
+    };
 
-      // Map to track document IDs for logging
-      const docIdMap = new Map<string, string>();
-      for (const doc of snapshot.docs) {
-        docIdMap.set(doc.ref.path, doc.id);
+    const indexes = documents.map((_, i) => i);
+    await this.runListWrites(
+      indexes,
+      state,
+      options,
+      createLog,
+      (writer, chunk) => {
+        chunk.forEach((i) => {
+          const doc = documents[i];
+          const docRef = refs[i];
+          const docId = this.docKey(docRef);
+
+          if (!existing.has(docRef.path)) {
+            // create() also protects documents written after the existence check
+            writer.create(docRef, doc.data);
+          } else if (onConflict === "skip") {
+            skippedIds.push(docId);
+            this.recordSkipped(state, options, logCollector, docId);
+          } else {
+            overwritten.add(docId);
+            if (onConflict === "merge") {
+              writer.set(docRef, doc.data, { merge: true });
+            } else {
+              writer.set(docRef, doc.data);
+            }
+          }
+        });
       }
+    );
 
-      bulkWriter.onWriteResult((ref) => {
-        successCount++;
-        processedCount++;
-
-        const docId = docIdMap.get(ref.path) || ref.id;
-        logCollector?.addEntry(docId, "success");
+    return { skippedIds, overwritten };
+  }
 
-        if (options.onProgress) {
-          const progress = calculateProgress(processedCount, totalCount);
-          options.onProgress(progress);
+  /**
+   * Merge documents from a list into the collection by ID, creating missing ones
+   * Shared by upsert() and import()
+   * @returns IDs of the documents that did not exist before
+   * @private
+   */
+  private async mergeDocuments(
+    documents: CreateDocumentInput[],
+    state: WriteState,
+    options: {
+      onProgress?: (progress: ProgressInfo) => void;
+      atomic?: boolean;
+      retry?: RetryOptions;
+    },
+    logCollector: LogCollector | null,
+    backup: BackupWriter | null = null
+  ): Promise<Set<string>> {
+    const collection = this.firestore.collection(this.state.collectionPath!);
+    const refs = documents.map((doc) => collection.doc(doc.id!));
+
+    // Only existence is needed, so no fields are read unless they are backed up
+    const missingIds = new Set<string>();
+    for (const chunk of chunkArray(refs, DEFAULT_PAGE_SIZE)) {
+      if (state.signal?.aborted) {
+        break;
+      }
+      const snapshots = backup
+        ? await this.firestore.getAll(...chunk)
+        : await this.firestore.getAll(...chunk, { fieldMask: [] });
+      await backup?.write(
+        snapshots.map((snapshot) => ({
+          path: snapshot.ref.path,
+          data: snapshot.data(),
+        }))
+      );
+
+      for (const snapshot of snapshots) {
+        if (!snapshot.exists) {
+          missingIds.add(this.docKey(snapshot.ref));
         }
-      });
-
-      bulkWriter.onWriteError((error) => {
-        failureCount++;
-        processedCount++;
-
-        const docId = error.documentRef?.id || "unknown";
-        failedDocIds.push(docId);
-        logCollector?.addEntry(docId, "failure", error.message);
+      }
+    }
 
-        if (options.onProgress) {
-          const progress = calculateProgress(processedCount, totalCount);
-          options.onProgress(progress);
-        }
+    const indexes = documents.map((_, i) => i);
+    await this.runListWrites(
+      indexes,
+      state,
+      options,
+      logCollector,
+      (writer, chunk) => {
+        chunk.forEach((i) => {
+          writer.set(refs[i], documents[i].data, { merge: true });
+        });
+      }
+    );
 
-        return false;
-      });
+    return missingIds;
+  }
 
-      for (const doc of snapshot.docs) {
-        bulkWriter.set(doc.ref, updateData, { merge: true });
+  /**
+   * Write a document list in chunks of DEFAULT_PAGE_SIZE, the way pages are written for queries
+   * The signal is checked before each chunk, so an abort stops the list between chunks
+   * under both policies. Atomic writes stay in one batch
+   * @param queueWrites - Queues the writes of the list items in one chunk
+   * @private
+   */
+  private async runListWrites<T>(
+    items: T[],
+    state: WriteState,
+    options: {
+      onProgress?: (progress: ProgressInfo) => void;
+      atomic?: boolean;
+      retry?: RetryOptions;
+    },
+    logCollector: LogCollector | null,
+    queueWrites: (writer: DocumentWriter, chunk: T[]) => void
+  ): Promise<void> {
+    const chunks = options.atomic
+      ? [items]
+      : chunkArray(items, DEFAULT_PAGE_SIZE);
+
+    for (const chunk of chunks) {
+      if (state.signal?.aborted) {
+        break;
       }
+      await this.runWrites(state, options, logCollector, (writer) =>
+        queueWrites(writer, chunk)
+      );
 
-      await bulkWriter.close();
+      // Abandoned writes were already recorded as an abort
+      if (state.aborted) {
+        return;
+      }
     }
 
-    const result: UpsertResult & { logFilePath?: string } = {
-      successCount,
-      failureCount,
-      totalCount,
-      failedDocIds: failedDocIds.length > 0 ? failedDocIds : undefined,
-    };
-
-    // Write log file if enabled
-    if (logCollector && options.log) {
-      result.logFilePath = logCollector.finalize(options.log);
+    if (state.signal?.aborted) {
+      this.recordAbort(state, logCollector);
     }
+  }
 
-    return result;
+  /**
+   * Upsert each matching document with data computed from its current data
+   * @param transform - Returns the data to set/merge, or null to skip the document
+   * @param options - Upsert options (e.g., progress callback, log options, batchSize for pagination)
+   * @returns Upsert result with success/failure/skipped counts and optional log file path
+   */
+  async upsertWith(
+    transform: DocumentTransform,
+    options: UpsertOptions = {}
+  ): Promise<UpsertResult & { logFilePath?: string }> {
+    return this.writeTransformed("upsert", transform, options);
   }
 
   /**
    * Delete documents matching query conditions
-   * @param options - Delete options (e.g., progress callback, log options, batchSize for pagination)
+   * With recursive: true, all subcollections below each document are deleted too
+   * @param options - Delete options (e.g., progress callback, log options, batchSize for pagination, recursive, dryRun)
    * @returns Delete result with success/failure counts, deleted IDs, and optional log file path
    */
   async delete(
     options: DeleteOptions = {}
   ): Promise<DeleteResult & { logFilePath?: string }> {
     this.validateSetup();
+    this.validateAbort(options);
+    this.validatePrecondition(options);
+    this.validateCheckpoint(options);
+
+    if (
+      options.maxDepth !== undefined &&
+      !(Number.isInteger(options.maxDepth) && options.maxDepth >= 0)
+    ) {
+      throw new Error("maxDepth must be a non-negative integer");
+    }
+    if (options.maxDepth !== undefined && !options.recursive) {
+      throw new Error("maxDepth requires recursive: true");
+    }
+
+    // Dry runs write no backup, checkpoint or log
+    const backup =
+      options.backup && !options.dryRun
+        ? await this.createBackup("delete", options.backup)
+        : null;
+    const checkpoint = options.dryRun
+      ? null
+      : await this.createCheckpoint({ operation: "delete" }, options);
 
     // Initialize log collector if logging is enabled
-    const logCollector = options.log?.enabled
-      ? createLogCollector("delete", this.collectionPath!, this.conditions)
-      : null;
+    const logCollector =
+      options.log?.enabled && !options.dryRun
+        ? this.createLogCollector("delete", undefined, {
+            backup: backup?.ref.path,
+            checkpoint: checkpoint?.ref.path,
+          })
+        : null;
+
+    const dryRunPaths: string[] = [];
+
+    const state = await this.processMatches(
+      options,
+      logCollector,
+      async (docs, state) => {
+        // Subcollection documents below each matched document, keyed by its path
+        const descendants = new Map<
+          string,
+          DocumentReference<DocumentData>[]
+        >();
+
+        const descendantImages: BackupEntry[] = [];
+
+        if (options.recursive) {
+          for (const doc of docs) {
+            const found = await this.listDescendants(doc.ref, options.maxDepth);
+            const refs = found.map((d) => d.ref);
+            descendants.set(doc.ref.path, refs);
+
+            if (backup) {
+              descendantImages.push(
+                ...found.map((d) => ({ path: d.ref.path, data: d.data }))
+              );
+            }
+
+            // Descendants are counted in progress and results as well
+            state.totalCount += refs.length;
+          }
+        }
 
-    let successCount = 0;
-    let failureCount = 0;
+        if (options.dryRun) {
+          for (const doc of docs) {
+            const refs = descendants.get(doc.ref.path) ?? [];
+            dryRunPaths.push(doc.ref.path, ...refs.map((ref) => ref.path));
+          }
+          return;
+        }
+
+        // Descendants are not read again, so they are backed up before any delete
+        await backup?.write(descendantImages);
+
+        // Descendants are deleted only after their document was, so those of
+        // documents whose delete failed or conflicted are kept (an atomic batch
+        // applies all of them or none)
+        const deferDescendants = !options.atomic;
+        const deletedBefore = state.succeededIds.length;
+
+        await this.writeDocuments(
+          docs,
+          state,
+          options,
+          logCollector,
+          (writer, doc) => {
+            writer.delete(doc.ref);
+
+            if (!deferDescendants) {
+              for (const ref of descendants.get(doc.ref.path) ?? []) {
+                writer.delete(ref);
+              }
+            }
+          },
+          backup
+        );
+
+        if (deferDescendants) {
+          const deleted = new Set(state.succeededIds.slice(deletedBefore));
+          const refs: DocumentReference<DocumentData>[] = [];
+
+          for (const doc of docs) {
+            const docRefs = descendants.get(doc.ref.path) ?? [];
+            if (deleted.has(this.docKey(doc.ref))) {
+              refs.push(...docRefs);
+            } else {
+              state.totalCount -= docRefs.length;
+            }
+          }
+
+          await this.runWrites(state, options, logCollector, (writer) => {
+            for (const ref of refs) {
+              writer.delete(ref);
+            }
+          });
+        }
+      },
+      checkpoint
+    );
+
+    const result: DeleteResult & { logFilePath?: string } = {
+      successCount: state.successCount,
+      failureCount: state.failureCount,
+      totalCount: state.totalCount,
+      retriedCount: options.retry ? state.retriedCount : undefined,
+      deletedIds: state.succeededIds,
+      failedDocIds:
+        state.failedDocIds.length > 0 ? state.failedDocIds : undefined,
+      missingDocIds:
+        state.missingDocIds.length > 0 ? state.missingDocIds : undefined,
+      conflictedDocIds:
+        state.conflictedDocIds.length > 0 ? state.conflictedDocIds : undefined,
+      failureReason: state.failureReason,
+      aborted: state.aborted || undefined,
+      lastCursor: state.aborted ? state.lastCursor : undefined,
+      dryRunPaths: options.dryRun ? dryRunPaths : undefined,
+      backupRef: backup?.ref,
+      checkpointRef: checkpoint?.ref,
+    };
+
+    // Write log file if enabled
+    if (logCollector && options.log) {
+      result.logFilePath = logCollector.finalize(options.log);
+    }
+
+    return result;
+  }
+
+  /**
+   * Restore the documents saved by the backup option of an operation
+   * Each document is written back exactly as it was: fields added by the operation
+   * are removed, deleted documents are re-created and documents it created are deleted.
+   * No collection or query needs to be set; document IDs are full paths then
+   * @param backupRef - backupRef from the operation result
+   * @param options - Rollback options (e.g., progress callback, log options, batchSize)
+   * @returns Rollback result with restored/removed IDs and optional log file path
+   */
+  async rollback(
+    backupRef: BackupRef,
+    options: RollbackOptions = {}
+  ): Promise<RollbackResult & { logFilePath?: string }> {
+    if (
+      !backupRef ||
+      (backupRef.type !== "file" && backupRef.type !== "firestore") ||
+      typeof backupRef.path !== "string"
+    ) {
+      throw new Error("Invalid backup reference");
+    }
+
+    const batchSize = options.batchSize ?? DEFAULT_PAGE_SIZE;
+    if (!(Number.isInteger(batchSize) && batchSize > 0)) {
+      throw new Error("batchSize must be a positive integer");
+    }
+
+    const header = await this.readBackupHeader(backupRef);
+
+    // Initialize log collector if logging is enabled
+    const logCollector = options.log?.enabled
+      ? createLogCollector(
+          "rollback",
+          header.collection,
+          undefined,
+          undefined,
+          {
+            collectionGroup: header.collectionGroup,
+            backup: backupRef.path,
+          }
+        )
+      : null;
+
+    // Entries are only counted up front when progress is reported
+    let counted = false;
     let totalCount = 0;
-    const deletedIds: string[] = [];
+    if (options.onProgress) {
+      for await (const chunk of this.readBackup(backupRef, batchSize)) {
+        totalCount += chunk.length;
+      }
+      counted = true;
+    }
+
+    const state = this.createWriteState(
+      totalCount,
+      this.resolveThrottle(options)
+    );
+    const removedIds = new Set<string>();
+
+    for await (const chunk of this.readBackup(backupRef, batchSize)) {
+      // A document saved more than once (e.g., after conflict retries) is
+      // restored to its last saved state, which is what the write replaced
+      const latest = new Map(chunk.map((entry) => [entry.path, entry]));
+      state.totalCount += latest.size - (counted ? chunk.length : 0);
+
+      await this.runBulkWriter(state, options, logCollector, (writer) => {
+        for (const entry of latest.values()) {
+          const ref = this.firestore.doc(entry.path);
+          if (entry.data) {
+            writer.set(ref, entry.data);
+          } else {
+            removedIds.add(this.docKey(ref));
+            writer.delete(ref);
+          }
+        }
+      });
+    }
+
+    const result: RollbackResult & { logFilePath?: string } = {
+      successCount: state.successCount,
+      failureCount: state.failureCount,
+      totalCount: state.totalCount,
+      retriedCount: options.retry ? state.retriedCount : undefined,
+      restoredIds: state.succeededIds.filter((id) => !removedIds.has(id)),
+      removedIds: state.succeededIds.filter((id) => removedIds.has(id)),
+      failedDocIds:
+        state.failedDocIds.length > 0 ? state.failedDocIds : undefined,
+    };
+
+    // Write log file if enabled
+    if (logCollector && options.log) {
+      result.logFilePath = logCollector.finalize(options.log);
+    }
+
+    return result;
+  }
+
+  /**
+   * Continue an update(), upsert() or delete() that was interrupted, from the checkpoint it saved
+   * The query and options are restored from the checkpoint, and the operation continues
+   * with the page after the last one saved. Counts, IDs, progress and the log cover all runs.
+   * No collection or query needs to be set
+   * @param checkpointRef - checkpointRef from the operation result, or the checkpoint option as a reference
+   * @param options - Options merged over the stored options (e.g., progress callback, signal)
+   * @returns Result of the whole operation, including earlier runs
+   */
+  async resume(
+    checkpointRef: CheckpointRef,
+    options: ResumeOptions = {}
+  ): Promise<OperationResult> {
+    if (
+      !checkpointRef ||
+      (checkpointRef.type !== "file" && checkpointRef.type !== "firestore") ||
+      typeof checkpointRef.path !== "string"
+    ) {
+      throw new Error("Invalid checkpoint reference");
+    }
+
+    const checkpoint = await this.readCheckpoint(checkpointRef);
+    if (checkpoint.completedAt) {
+      throw new Error(
+        `Checkpoint is already complete: "${checkpointRef.path}"`
+      );
+    }
+
+    const query = BatchUpdater.fromJSON(
+      this.firestore,
+      checkpoint.operation,
+      this.options
+    );
+    query.resumePoint = {
+      writer: this.checkpointWriter(checkpointRef, checkpoint.pageCount),
+      startedAt: checkpoint.startedAt,
+      progress: checkpoint.progress,
+    };
+
+    return BatchUpdater.runDefinition(query, checkpoint.operation, {
+      ...checkpoint.operation.options,
+      ...options,
+    });
+  }
+
+  /**
+   * Copy matching documents into another collection
+   * @param targetCollection - Target collection path (in options.firestore if given)
+   * @param options - Copy options (e.g., target Firestore, mapId, transform, onConflict, includeSubcollections)
+   * @returns Copy result with success/failure/skipped counts, copied IDs, and optional log file path
+   */
+  async copyTo(
+    targetCollection: string,
+    options: CopyOptions = {}
+  ): Promise<CopyResult & { logFilePath?: string }> {
+    this.validateSetup();
+
+    // Initialize log collector if logging is enabled
+    const logCollector = options.log?.enabled
+      ? this.createLogCollector("copy", undefined, {
+          target: targetCollection,
+        })
+      : null;
+
+    const state = await this.transferMatches(
+      "copy",
+      options,
+      logCollector,
+      this.collectionTarget(targetCollection, options)
+    );
+
+    const result: CopyResult & { logFilePath?: string } = {
+      successCount: state.successCount,
+      failureCount: state.failureCount,
+      totalCount: state.totalCount,
+      retriedCount: options.retry ? state.retriedCount : undefined,
+      skippedCount: state.skippedCount,
+      copiedIds: state.succeededIds,
+      failedDocIds:
+        state.failedDocIds.length > 0 ? state.failedDocIds : undefined,
+      missingDocIds:
+        state.missingDocIds.length > 0 ? state.missingDocIds : undefined,
+    };
+
+    // Write log file if enabled
+    if (logCollector && options.log) {
+      result.logFilePath = logCollector.finalize(options.log);
+    }
+
+    return result;
+  }
+
+  /**
+   * Move matching documents into another collection
+   * Each source document is deleted only after its target write succeeded
+   * @param targetCollection - Target collection path (in options.firestore if given)
+   * @param options - Move options (same as copyTo())
+   * @returns Move result with success/failure/skipped counts, moved IDs, and optional log file path
+   */
+  async moveTo(
+    targetCollection: string,
+    options: MoveOptions = {}
+  ): Promise<MoveResult & { logFilePath?: string }> {
+    this.validateSetup();
+
+    // Initialize log collector if logging is enabled
+    const logCollector = options.log?.enabled
+      ? this.createLogCollector("move", undefined, {
+          target: targetCollection,
+        })
+      : null;
+
+    const state = await this.transferMatches(
+      "move",
+      options,
+      logCollector,
+      this.collectionTarget(targetCollection, options)
+    );
+
+    const result: MoveResult & { logFilePath?: string } = {
+      successCount: state.successCount,
+      failureCount: state.failureCount,
+      totalCount: state.totalCount,
+      retriedCount: options.retry ? state.retriedCount : undefined,
+      skippedCount: state.skippedCount,
+      movedIds: state.succeededIds,
+      failedDocIds:
+        state.failedDocIds.length > 0 ? state.failedDocIds : undefined,
+      missingDocIds:
+        state.missingDocIds.length > 0 ? state.missingDocIds : undefined,
+    };
+
+    // Write log file if enabled
+    if (logCollector && options.log) {
+      result.logFilePath = logCollector.finalize(options.log);
+    }
+
+    return result;
+  }
+
+  /**
+   * Move matching documents into an archive collection instead of deleting them
+   * Each archived document gets a new ID and its deletion metadata under SOFT_DELETE_FIELD;
+   * the source is deleted only after it was archived. Use restore() to put documents back
+   * @param options - Soft delete options (e.g., archiveCollection, reason, operator, includeSubcollections)
+   * @returns Soft delete result with success/failure counts, deleted IDs, run ID, and optional log file path
+   */
+  async softDelete(
+    options: SoftDeleteOptions
+  ): Promise<SoftDeleteResult & { logFilePath?: string }> {
+    this.validateSetup();
+
+    const archiveCollection = options?.archiveCollection;
+    if (
+      typeof archiveCollection !== "string" ||
+      archiveCollection.length === 0
+    ) {
+      throw new Error("archiveCollection must be a non-empty string");
+    }
+
+    const runId = options.runId ?? randomUUID();
+    const operator =
+      options.operator ?? process.env.USER ?? process.env.USERNAME ?? "unknown";
+    const archive = this.firestore.collection(archiveCollection);
+
+    // Initialize log collector if logging is enabled
+    const logCollector = options.log?.enabled
+      ? this.createLogCollector("soft-delete", undefined, {
+          target: archiveCollection,
+        })
+      : null;
+
+    // Archive IDs are new, so nothing can be overwritten
+    const state = await this.transferMatches(
+      "move",
+      { ...options, onConflict: "overwrite" },
+      logCollector,
+      (doc, data) => {
+        const metadata: Omit<SoftDeleteMetadata, "deletedAt"> = {
+          deletedBy: operator,
+          originalPath: doc.ref.path,
+          runId,
+          ...(options.reason !== undefined ? { reason: options.reason } : {}),
+        };
+
+        return {
+          ref: archive.doc(),
+          data: {
+            ...data,
+            [SOFT_DELETE_FIELD]: {
+              ...metadata,
+              deletedAt: FieldValue.serverTimestamp(),
+            },
+          },
+        };
+      }
+    );
+
+    const result: SoftDeleteResult & { logFilePath?: string } = {
+      successCount: state.successCount,
+      failureCount: state.failureCount,
+      totalCount: state.totalCount,
+      retriedCount: options.retry ? state.retriedCount : undefined,
+      deletedIds: state.succeededIds,
+      runId,
+      failedDocIds:
+        state.failedDocIds.length > 0 ? state.failedDocIds : undefined,
+      missingDocIds:
+        state.missingDocIds.length > 0 ? state.missingDocIds : undefined,
+    };
+
+    // Write log file if enabled
+    if (logCollector && options.log) {
+      result.logFilePath = logCollector.finalize(options.log);
+    }
+
+    return result;
+  }
+
+  /**
+   * Put matching archived documents back at their original paths
+   * Run it on the archive collection; the deletion metadata is removed and each
+   * archived document is deleted only after it was restored
+   * @param options - Restore options (e.g., onConflict, includeSubcollections, log options)
+   * @returns Restore result with success/failure/skipped counts, restored archive IDs, and optional log file path
+   */
+  async restore(
+    options: RestoreOptions = {}
+  ): Promise<RestoreResult & { logFilePath?: string }> {
+    this.validateSetup();
+
+    // Initialize log collector if logging is enabled
+    const logCollector = options.log?.enabled
+      ? this.createLogCollector("restore")
+      : null;
+
+    const state = await this.transferMatches(
+      "move",
+      options,
+      logCollector,
+      (_, data) => {
+        const { [SOFT_DELETE_FIELD]: metadata, ...original } = data;
+        if (typeof metadata?.originalPath !== "string") {
+          throw new Error(
+            `Not a soft-deleted document: no ${SOFT_DELETE_FIELD}.originalPath`
+          );
+        }
+
+        return {
+          ref: this.firestore.doc(metadata.originalPath),
+          data: original,
+        };
+      }
+    );
+
+    const result: RestoreResult & { logFilePath?: string } = {
+      successCount: state.successCount,
+      failureCount: state.failureCount,
+      totalCount: state.totalCount,
+      retriedCount: options.retry ? state.retriedCount : undefined,
+      skippedCount: state.skippedCount,
+      restoredIds: state.succeededIds,
+      failedDocIds:
+        state.failedDocIds.length > 0 ? state.failedDocIds : undefined,
+      missingDocIds:
+        state.missingDocIds.length > 0 ? state.missingDocIds : undefined,
+    };
+
+    // Write log file if enabled
+    if (logCollector && options.log) {
+      result.logFilePath = logCollector.finalize(options.log);
+    }
+
+    return result;
+  }
+
+  /**
+   * Import records from an NDJSON, JSON array or CSV file into the collection
+   * The file is streamed and written batchSize records at a time, so memory use does not grow with its size.
+   * Records that cannot be parsed or converted are written to a rejects file with their line numbers
+   * @param source - Path of the file to import
+   * @param options - Import options (e.g., format, mode, idField, types, batchSize, log options)
+   * @returns Import result with success/failure/rejected counts and optional log file path
+   */
+  async import(
+    source: string,
+    options: ImportOptions = {}
+  ): Promise<ImportResult & { logFilePath?: string }> {
+    this.validateSetup();
+
+    if (this.state.isCollectionGroup) {
+      throw new Error(
+        "import() is not supported for collection groups. Use .collection() with a full path."
+      );
+    }
+
+    const format = options.format ?? inferRecordFormat(source);
+    const mode = options.mode ?? "create";
+    const onConflict = options.onConflict ?? "fail";
+    const batchSize = options.batchSize ?? DEFAULT_PAGE_SIZE;
+
+    if (mode !== "create" && mode !== "upsert") {
+      throw new Error(`Invalid mode option: "${mode}"`);
+    }
+    if (mode === "upsert" && !options.idField) {
+      throw new Error('idField is required in "upsert" mode');
+    }
+    if (!["fail", "skip", "overwrite", "merge"].includes(onConflict)) {
+      throw new Error(`Invalid onConflict option: "${onConflict}"`);
+    }
+    if (!(Number.isInteger(batchSize) && batchSize > 0)) {
+      throw new Error("batchSize must be a positive integer");
+    }
+
+    // Initialize log collector if logging is enabled
+    const logCollector = options.log?.enabled
+      ? this.createLogCollector("import", undefined, { source })
+      : null;
+
+    const totalBytes = fs.statSync(source).size;
+    const stream = fs.createReadStream(source, { encoding: "utf8" });
+    const rejectsPath = options.rejectsPath ?? `${source}.rejects.ndjson`;
+    let rejectsFd: number | undefined;
+
+    const result: ImportResult & { logFilePath?: string } = {
+      successCount: 0,
+      failureCount: 0,
+      totalCount: 0,
+      rejectedCount: 0,
+    };
+    let createdCount = 0;
+    let skippedCount = 0;
+    let overwrittenCount = 0;
+    let retriedCount = 0;
     const failedDocIds: string[] = [];
 
-    // Use pagination if batchSize is set
-    if (options.batchSize && options.batchSize > 0) {
-      // First, get total count for progress tracking
-      const countQuery = this.buildQuery();
-      const countSnapshot = await countQuery.count().get();
-      totalCount = countSnapshot.data().count;
-
-      if (totalCount === 0) {
-        const result: DeleteResult & { logFilePath?: string } = {
-          successCount: 0,
-          failureCount: 0,
-          totalCount: 0,
-          deletedIds: [],
+    let batch: CreateDocumentInput[] = [];
+    const batchIds = new Set<string>();
+
+    const throttle = this.resolveThrottle(options);
+
+    const writeBatch = async () => {
+      const state = this.createWriteState(batch.length, throttle);
+
+      if (mode === "upsert") {
+        const missingIds = await this.mergeDocuments(
+          batch,
+          state,
+          { retry: options.retry },
+          logCollector
+        );
+        createdCount += state.succeededIds.filter((id) =>
+          missingIds.has(id)
+        ).length;
+      } else {
+        const { skippedIds, overwritten } = await this.createDocuments(
+          batch,
+          onConflict,
+          state,
+          { retry: options.retry },
+          logCollector
+        );
+        skippedCount += skippedIds.length;
+        overwrittenCount += state.succeededIds.filter((id) =>
+          overwritten.has(id)
+        ).length;
+      }
+
+      result.successCount += state.successCount;
+      result.failureCount += state.failureCount;
+      result.totalCount += state.totalCount;
+      retriedCount += state.retriedCount;
+      failedDocIds.push(...state.failedDocIds);
+
+      batch = [];
+      batchIds.clear();
+      options.onProgress?.(calculateProgress(stream.bytesRead, totalBytes));
+    };
+
+    try {
+      for await (const item of readRecords(stream, format, options.delimiter)) {
+        let error = item.error;
+        let doc: CreateDocumentInput | undefined;
+
+        if (item.record) {
+          try {
+            doc = toImportDocument(
+              item.record,
+              options,
+              this.firestore,
+              format === "csv"
+            );
+          } catch (e) {
+            error = e instanceof Error ? e.message : String(e);
+          }
+        }
+
+        if (!doc) {
+          if (rejectsFd === undefined) {
+            fs.mkdirSync(path.dirname(rejectsPath), { recursive: true });
+            rejectsFd = fs.openSync(rejectsPath, "w");
+          }
+          fs.writeSync(
+            rejectsFd,
+            JSON.stringify({ line: item.line, error, record: item.raw }) + "\n"
+          );
+          result.rejectedCount++;
+          continue;
+        }
+
+        // The same ID twice in one batch would be counted as two documents
+        if (doc.id !== undefined && batchIds.has(doc.id)) {
+          await writeBatch();
+        }
+
+        batch.push(doc);
+        if (doc.id !== undefined) {
+          batchIds.add(doc.id);
+        }
+        if (batch.length >= batchSize) {
+          await writeBatch();
+        }
+      }
+
+      if (batch.length > 0) {
+        await writeBatch();
+      }
+    } finally {
+      stream.destroy();
+      if (rejectsFd !== undefined) {
+        fs.closeSync(rejectsFd);
+      }
+    }
+
+    if (mode === "upsert") {
+      result.createdCount = createdCount;
+      result.updatedCount = result.successCount - createdCount;
+    } else {
+      result.skippedCount = skippedCount > 0 ? skippedCount : undefined;
+      result.overwrittenCount =
+        overwrittenCount > 0 ? overwrittenCount : undefined;
+    }
+    result.retriedCount = options.retry ? retriedCount : undefined;
+    result.failedDocIds = failedDocIds.length > 0 ? failedDocIds : undefined;
+    result.rejectsFilePath = rejectsFd !== undefined ? rejectsPath : undefined;
+
+    // Write log file if enabled
+    if (logCollector && options.log) {
+      result.logFilePath = logCollector.finalize(options.log);
+    }
+
+    return result;
+  }
+
+  /**
+   * Export matching documents to an NDJSON, JSON array or CSV file
+   * Documents are read page by page and written as they arrive.
+   * Values use the encodeValue() format, so import() restores timestamps, GeoPoints, references and bytes
+   * @param destination - Path of the file to write
+   * @param options - Export options (e.g., format, idField, fields, CSV flattening, batchSize)
+   * @returns Export result with the number of documents and the file path
+   */
+  async export(
+    destination: string,
+    options: ExportOptions = {}
+  ): Promise<ExportResult> {
+    this.validateSetup();
+
+    const format = options.format ?? inferRecordFormat(destination);
+    const idField = options.idField ?? "__id";
+    const delimiter = options.delimiter ?? ",";
+    const fields = options.fields
+      ? this.validateFieldPaths(options.fields)
+      : undefined;
+    const batchSize =
+      options.batchSize && options.batchSize > 0
+        ? options.batchSize
+        : DEFAULT_PAGE_SIZE;
+
+    if (!["ndjson", "json", "csv"].includes(format)) {
+      throw new Error(`Unsupported format: "${format}"`);
+    }
+    if (options.flattenDepth !== undefined && !(options.flattenDepth >= 0)) {
+      throw new Error("flattenDepth must be a non-negative number");
+    }
+
+    // Total count is only needed for progress tracking
+    const totalCount = options.onProgress
+      ? await this.countMatches(batchSize)
+      : 0;
+
+    fs.mkdirSync(path.dirname(destination), { recursive: true });
+
+    // CSV rows wait in a staging file until every column is known
+    const staging =
+      format === "csv" && !options.columns
+        ? `${destination}.partial`
+        : undefined;
+    const columns = new Set<string>(
+      options.columns ?? (format === "csv" ? [idField] : [])
+    );
+
+    const fd = fs.openSync(staging ?? destination, "w");
+    let exportedCount = 0;
+    let written = false;
+
+    try {
+      if (format === "csv" && !staging) {
+        fs.writeSync(fd, formatCsvRow([...columns], delimiter) + "\n");
+      }
+      if (format === "json") {
+        fs.writeSync(fd, "[");
+      }
+
+      for await (const page of this.fetchPages(batchSize, fields)) {
+        const lines: string[] = [];
+
+        for (const doc of page.docs) {
+          const record = toExportRecord(
+            this.docKey(doc.ref),
+            doc.data(),
+            idField
+          );
+
+          if (format !== "csv") {
+            lines.push(JSON.stringify(record));
+          } else {
+            const cells = toCsvCells(record, options.flattenDepth);
+            if (staging) {
+              Object.keys(cells).forEach((column) => columns.add(column));
+              lines.push(JSON.stringify(cells));
+            } else {
+              lines.push(
+                formatCsvRow(
+                  [...columns].map((column) => cells[column] ?? ""),
+                  delimiter
+                )
+              );
+            }
+          }
+        }
+
+        if (lines.length > 0) {
+          const separator = format === "json" ? ",\n" : "\n";
+          const prefix =
+            format === "json" ? (exportedCount > 0 ? ",\n" : "\n") : "";
+          fs.writeSync(
+            fd,
+            prefix + lines.join(separator) + (format === "json" ? "" : "\n")
+          );
+          exportedCount += lines.length;
+        }
+
+        if (options.onProgress) {
+          options.onProgress(calculateProgress(exportedCount, totalCount));
+        }
+      }
+
+      if (format === "json") {
+        fs.writeSync(fd, exportedCount > 0 ? "\n]\n" : "]\n");
+      }
+      written = true;
+    } finally {
+      fs.closeSync(fd);
+
+      // Staged rows of a failed export are never turned into the CSV file
+      if (staging && !written) {
+        fs.rmSync(staging, { force: true });
+      }
+    }
+
+    const header = staging
+      ? await this.writeStagedCsv(staging, destination, columns, delimiter)
+      : [...columns];
+
+    return {
+      exportedCount,
+      filePath: destination,
+      format,
+      columns: format === "csv" ? header : undefined,
+    };
+  }
+
+  /**
+   * Write the final CSV file from rows staged by export(), then remove the staging file
+   * Columns are sorted with the ID column first
+   * @returns CSV header
+   * @private
+   */
+  private async writeStagedCsv(
+    staging: string,
+    destination: string,
+    columns: Set<string>,
+    delimiter: string
+  ): Promise<string[]> {
+    const [idColumn, ...rest] = columns;
+    const header = [idColumn, ...rest.sort()];
+
+    const fd = fs.openSync(destination, "w");
+    const input = fs.createReadStream(staging, { encoding: "utf8" });
+
+    try {
+      fs.writeSync(fd, formatCsvRow(header, delimiter) + "\n");
+
+      for await (const line of readline.createInterface({
+        input,
+        crlfDelay: Infinity,
+      })) {
+        const cells: Record<string, string> = JSON.parse(line);
+        fs.writeSync(
+          fd,
+          formatCsvRow(
+            header.map((column) => cells[column] ?? ""),
+            delimiter
+          ) + "\n"
+        );
+      }
+    } finally {
+      input.destroy();
+      fs.closeSync(fd);
+      fs.rmSync(staging, { force: true });
+    }
+
+    return header;
+  }
+
+  /**
+   * Validate that collection is set
+   * @private
+   */
+  private validateSetup(): void {
+    if (!this.state.collectionPath) {
+      throw new Error(
+        "Collection path is required. Call .collection() or .collectionGroup() first."
+      );
+    }
+
+    if (
+      this.state.docIds &&
+      (this.state.conditions.length > 0 ||
+        this.state.orderByConditions.length > 0 ||
+        this.state.limitCount !== undefined)
+    ) {
+      throw new Error(
+        "docs() cannot be combined with where(), orderBy() or limit()"
+      );
+    }
+  }
+
+  /**
+   * Create a new BatchUpdater with updated query state
+   * @private
+   */
+  private withState(changes: Partial<QueryState>): BatchUpdater {
+    const next = new BatchUpdater(this.firestore, this.options);
+    const state: QueryState = { ...this.state, ...changes };
+
+    next.state = Object.freeze({
+      ...state,
+      conditions: Object.freeze([...state.conditions]),
+      orderByConditions: Object.freeze([...state.orderByConditions]),
+      docIds: state.docIds && Object.freeze([...state.docIds]),
+      predicates: Object.freeze([...state.predicates]),
+    });
+    return next;
+  }
+
+  /**
+   * Split conditions that exceed Firestore value limits into sub-queries
+   * (see planConditions()) and add client-side checks
+   * @param fields - Only fetch these fields (plus fields needed for filtering and cursors)
+   * @private
+   */
+  private buildQueryPlan(fields?: string[]): QueryPlan {
+    const { combinations, excluded, disjoint } = planConditions(
+      this.state.conditions
+    );
+    const postFilters: QueryPlan["postFilters"] = excluded.map(
+      ({ field, values }) =>
+        (doc) =>
+          !values.some((v) => isEqualValue(doc.get(field), v))
+    );
+    const postFilterFields = excluded.map(({ field }) => field);
+
+    for (const predicate of this.state.predicates) {
+      postFilters.push((doc) => predicate(doc.data(), doc.ref));
+    }
+
+    if (
+      combinations.length > 1 &&
+      this.state.limitCount !== undefined &&
+      this.state.limitCount > 0 &&
+      this.state.orderByConditions.length > 0
+    ) {
+      throw new Error(
+        `limit() with orderBy() is not supported when an "in" or "array-contains-any" condition has more than ${MAX_DISJUNCTION_VALUES} values`
+      );
+    }
+
+    const projection = this.projection(fields, postFilterFields);
+
+    return {
+      queries: combinations.map((c) => {
+        const query = this.buildQuery(c);
+        return projection ? query.select(...projection) : query;
+      }),
+      postFilters,
+      disjoint,
+    };
+  }
+
+  /**
+   * Fields to fetch when only some fields are needed
+   * Cursor pagination needs the fields results are ordered by, and post filters need their fields.
+   * filter() predicates receive whole documents, so nothing is projected then
+   * @private
+   */
+  private projection(
+    fields: string[] | undefined,
+    postFilterFields: string[] = []
+  ): string[] | undefined {
+    if (!fields || this.state.predicates.length > 0) {
+      return undefined;
+    }
+
+    return Array.from(
+      new Set([
+        ...fields,
+        ...postFilterFields,
+        ...this.cursorOrder().map((o) => o.field),
+      ])
+    );
+  }
+
+  /**
+   * Build Firestore query with all conditions
+   * @private
+   */
+  private buildQuery(
+    conditions: readonly FilterCondition[] = this.state.conditions
+  ): Query<DocumentData> {
+    let query: Query<DocumentData> = this.state.isCollectionGroup
+      ? this.firestore.collectionGroup(this.state.collectionPath!)
+      : this.firestore.collection(this.state.collectionPath!);
+
+    for (const condition of conditions) {
+      query = isCompositeCondition(condition)
+        ? query.where(this.toFilter(condition))
+        : query.where(condition.field, condition.operator, condition.value);
+    }
+
+    for (const orderBy of this.state.orderByConditions) {
+      query = query.orderBy(orderBy.field, orderBy.direction);
+    }
+
+    if (this.state.limitCount !== undefined && this.state.limitCount > 0) {
+      query = query.limit(this.state.limitCount);
+    }
+
+    return query;
+  }
+
+  /**
+   * Convert a condition tree into a Firestore Filter
+   * @private
+   */
+  private toFilter(condition: FilterCondition): Filter {
+    if (!isCompositeCondition(condition)) {
+      return Filter.where(condition.field, condition.operator, condition.value);
+    }
+
+    const filters = condition.conditions.map((c) => this.toFilter(c));
+    return condition.type === "or"
+      ? Filter.or(...filters)
+      : Filter.and(...filters);
+  }
+
+  /**
+   * Identifier used for a document in results and logs
+   * Collection groups span many parents, so the full path is used there.
+   * Documents outside the queried collection (e.g., subcollection documents
+   * removed by a recursive delete, or documents restored by rollback() without
+   * a collection) are also identified by their full path
+   * @private
+   */
+  private docKey(ref: DocumentReference): string {
+    if (this.state.isCollectionGroup || !this.state.collectionPath) {
+      return ref.path;
+    }
+
+    const collection = this.firestore.collection(this.state.collectionPath!);
+    return ref.parent.path === collection.path ? ref.id : ref.path;
+  }
+
+  /**
+   * Create a log collector for the current query
+   * @private
+   */
+  private createLogCollector(
+    operation: OperationType,
+    updateData?: Record<string, any>,
+    details: Pick<
+      LogCollectorOptions,
+      "computedUpdate" | "target" | "source" | "backup" | "checkpoint"
+    > = {}
+  ): LogCollector {
+    const isQuery = operation !== "create" && operation !== "import";
+    const resumed = this.resumePoint;
+
+    return createLogCollector(
+      operation,
+      this.state.collectionPath!,
+      isQuery ? this.state.conditions : undefined,
+      updateData,
+      {
+        collectionGroup: this.state.isCollectionGroup,
+        clientFilterCount: isQuery ? this.state.predicates.length : undefined,
+        startedAt: resumed?.startedAt,
+        entries: resumed?.progress.entries,
+        ...details,
+      }
+    );
+  }
+
+  /**
+   * Write data computed by a transform to every matching document
+   * Shared by updateWith(), upsertWith() and the field operations
+   * @param description - How the data is computed, shown in the log file
+   * @private
+   */
+  private async writeTransformed(
+    operation: "update" | "upsert",
+    transform: DocumentTransform,
+    options: UpdateOptions,
+    description = "computed per document"
+  ): Promise<UpdateResult & { logFilePath?: string }> {
+    this.validateSetup();
+    this.validateAbort(options);
+    this.validatePrecondition(options);
+
+    if (typeof transform !== "function") {
+      throw new Error("Transform must be a function");
+    }
+
+    // Transforms cannot be stored, so the operation could not be resumed
+    if (options.checkpoint) {
+      throw new Error(
+        "checkpoint is not supported with a transform. Use update(), upsert() or delete()"
+      );
+    }
+
+    const backup = options.backup
+      ? await this.createBackup(operation, options.backup)
+      : null;
+
+    // Initialize log collector if logging is enabled
+    const logCollector = options.log?.enabled
+      ? this.createLogCollector(operation, undefined, {
+          computedUpdate: description,
+          backup: backup?.ref.path,
+        })
+      : null;
+
+    const state = await this.writeMatches(
+      options,
+      logCollector,
+      (bulkWriter, doc, state) => {
+        const data = this.applyTransform(
+          transform,
+          doc,
+          state,
+          options,
+          logCollector
+        );
+        if (!data) {
+          return;
+        }
+        if (operation === "update") {
+          bulkWriter.update(doc.ref, data);
+        } else {
+          bulkWriter.set(doc.ref, data, { merge: true });
+        }
+      },
+      backup
+    );
+
+    const result: UpdateResult & { logFilePath?: string } = {
+      successCount: state.successCount,
+      failureCount: state.failureCount,
+      totalCount: state.totalCount,
+      retriedCount: options.retry ? state.retriedCount : undefined,
+      skippedCount: state.skippedCount,
+      failedDocIds:
+        state.failedDocIds.length > 0 ? state.failedDocIds : undefined,
+      missingDocIds:
+        state.missingDocIds.length > 0 ? state.missingDocIds : undefined,
+      conflictedDocIds:
+        state.conflictedDocIds.length > 0 ? state.conflictedDocIds : undefined,
+      failureReason: state.failureReason,
+      aborted: state.aborted || undefined,
+      lastCursor: state.aborted ? state.lastCursor : undefined,
+      backupRef: backup?.ref,
+    };
+
+    // Write log file if enabled
+    if (logCollector && options.log) {
+      result.logFilePath = logCollector.finalize(options.log);
+    }
+
+    return result;
+  }
+
+  /**
+   * Create empty write counters
+   * @private
+   */
+  private createWriteState(
+    totalCount: number,
+    throttle: Throttle | null,
+    abort: { signal?: AbortSignal; onAbort?: AbortPolicy } = {}
+  ): WriteState {
+    return {
+      totalCount,
+      processedCount: 0,
+      successCount: 0,
+      failureCount: 0,
+      skippedCount: 0,
+      succeededIds: [],
+      failedDocIds: [],
+      missingDocIds: [],
+      conflictedDocIds: [],
+      retriedCount: 0,
+      throttle,
+      signal: abort.signal ?? null,
+      abandon: abort.onAbort === "abandon",
+      aborted: false,
+    };
+  }
+
+  /**
+   * Limiter of an operation: its throttle option, or the default of the instance
+   * Plain limits get a new Throttle, so one operation shares a single budget
+   * @private
+   */
+  private resolveThrottle(options: {
+    throttle?: ThrottleOptions | Throttle;
+  }): Throttle | null {
+    const throttle = options.throttle ?? this.options.throttle;
+
+    if (!throttle) {
+      return null;
+    }
+    return throttle instanceof Throttle ? throttle : new Throttle(throttle);
+  }
+
+  /**
+   * Queue a write for every matching document and execute them
+   * @private
+   */
+  private async writeMatches(
+    options: UpdateOptions,
+    logCollector: LogCollector | null,
+    queueWrite: (
+      writer: DocumentWriter,
+      doc: QueryDocumentSnapshot<DocumentData>,
+      state: WriteState
+    ) => void,
+    backup: BackupWriter | null = null,
+    checkpoint: CheckpointWriter | null = null
+  ): Promise<WriteState> {
+    return this.processMatches(
+      options,
+      logCollector,
+      (docs, state) =>
+        this.writeDocuments(
+          docs,
+          state,
+          options,
+          logCollector,
+          queueWrite,
+          backup
+        ),
+      checkpoint
+    );
+  }
+
+  /**
+   * Write a page of documents
+   * With precondition "unchanged", each document may only be written if it has not
+   * changed since it was read. Conflicting documents are re-read, checked against
+   * the query again and retried up to conflictRetries times.
+   * With a backup, the documents are saved before each attempt is written
+   * @private
+   */
+  private async writeDocuments(
+    docs: QueryDocumentSnapshot<DocumentData>[],
+    state: WriteState,
+    options: UpdateOptions,
+    logCollector: LogCollector | null,
+    queueWrite: (
+      writer: DocumentWriter,
+      doc: QueryDocumentSnapshot<DocumentData>,
+      state: WriteState
+    ) => void,
+    backup: BackupWriter | null = null
+  ): Promise<void> {
+    const unchanged = options.precondition === "unchanged";
+    let pending = docs;
+
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      const queueWrites = (writer: DocumentWriter) => {
+        for (const doc of pending) {
+          queueWrite(
+            unchanged ? this.withPrecondition(writer, doc) : writer,
+            doc,
+            state
+          );
+        }
+      };
+
+      const conflicts = await this.runWrites(
+        state,
+        options,
+        logCollector,
+        backup
+          ? await this.backUpWrites(backup, pending, queueWrites)
+          : queueWrites
+      );
+
+      if (conflicts.length === 0) {
+        return;
+      }
+
+      if (attempt >= (options.conflictRetries ?? 0)) {
+        for (const ref of conflicts) {
+          this.recordConflict(state, options, logCollector, this.docKey(ref));
+        }
+        return;
+      }
+
+      pending = await this.rereadConflicts(
+        conflicts,
+        state,
+        options,
+        logCollector
+      );
+    }
+  }
+
+  /**
+   * Save the documents a page is about to write before any of the writes is sent
+   * Writes are recorded first, so documents a transform skips are not backed up
+   * @returns Function that queues the recorded writes
+   * @private
+   */
+  private async backUpWrites(
+    backup: BackupWriter,
+    docs: QueryDocumentSnapshot<DocumentData>[],
+    queueWrites: (writer: DocumentWriter) => void
+  ): Promise<(writer: DocumentWriter) => void> {
+    const writes: QueuedWrite[] = [];
+    const writtenPaths = new Set<string>();
+
+    queueWrites(
+      this.recordingWriter((ref, write) => {
+        writtenPaths.add(ref.path);
+        writes.push(write);
+      })
+    );
+
+    await backup.write(
+      docs
+        .filter((doc) => writtenPaths.has(doc.ref.path))
+        .map((doc) => ({ path: doc.ref.path, data: doc.data() }))
+    );
+
+    return (writer) => writes.forEach((write) => write(writer));
+  }
+
+  /**
+   * Create a writer that hands each write to record() instead of sending it,
+   * together with whether the write can safely be applied twice
+   * @private
+   */
+  private recordingWriter(
+    record: (
+      ref: DocumentReference<DocumentData>,
+      write: QueuedWrite,
+      idempotent: boolean
+    ) => void
+  ): DocumentWriter {
+    return {
+      create(ref, data) {
+        // A repeated create() fails with ALREADY_EXISTS
+        record(ref, (writer) => writer.create(ref, data), false);
+      },
+      set(
+        ref: DocumentReference<DocumentData>,
+        data: DocumentData,
+        setOptions?: SetOptions
+      ) {
+        record(
+          ref,
+          (writer) =>
+            setOptions
+              ? writer.set(ref, data, setOptions)
+              : writer.set(ref, data),
+          isIdempotentData(data)
+        );
+      },
+      update(ref, data, precondition) {
+        record(
+          ref,
+          (writer) =>
+            precondition
+              ? writer.update(ref, data, precondition)
+              : writer.update(ref, data),
+          isIdempotentData(data)
+        );
+      },
+      delete(ref, precondition) {
+        record(ref, (writer) => writer.delete(ref, precondition), true);
+      },
+    };
+  }
+
+  /**
+   * Start a backup of the documents an operation on the current query writes
+   * @private
+   */
+  private async createBackup(
+    operation: OperationType,
+    options: BackupOptions
+  ): Promise<BackupWriter> {
+    // Firestore rejects undefined fields, so collectionGroup is only set when true
+    const header: BackupHeader = {
+      operation,
+      collection: this.state.collectionPath!,
+      ...(this.state.isCollectionGroup ? { collectionGroup: true } : {}),
+      createdAt: new Date().toISOString(),
+    };
+
+    if ("path" in options) {
+      const filePath = options.path;
+      if (typeof filePath !== "string" || filePath.length === 0) {
+        throw new Error("Backup path must be a non-empty string");
+      }
+      if (fs.existsSync(filePath)) {
+        throw new Error(`Backup file already exists: "${filePath}"`);
+      }
+
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(
+        filePath,
+        JSON.stringify({ backup: 1, ...header }) + "\n"
+      );
+
+      return {
+        ref: { type: "file", path: filePath },
+        write: async (entries) => {
+          if (entries.length === 0) {
+            return;
+          }
+          const lines = entries.map((entry) =>
+            JSON.stringify(
+              entry.data
+                ? {
+                    path: entry.path,
+                    exists: true,
+                    data: encodeValue(entry.data),
+                  }
+                : { path: entry.path, exists: false }
+            )
+          );
+          fs.appendFileSync(filePath, lines.join("\n") + "\n");
+        },
+      };
+    }
+
+    if (
+      typeof options.collection !== "string" ||
+      options.collection.length === 0
+    ) {
+      throw new Error("Backup collection must be a non-empty string");
+    }
+
+    const backupDoc = this.firestore.collection(options.collection).doc();
+    await backupDoc.create(header);
+
+    // Entries are numbered so rollback() can read them back in order
+    const entries = backupDoc.collection(BACKUP_ENTRIES_COLLECTION);
+    let seq = 0;
+
+    return {
+      ref: { type: "firestore", path: backupDoc.path },
+      write: async (backupEntries) => {
+        // Before-images are saved in the encodeValue() format and split like checkpoint
+        // pages, as a document of up to 1 MiB does not fit in one entry with its path
+        const partDocs = backupEntries.flatMap((entry) => {
+          const entrySeq = seq++;
+          const parts = entry.data
+            ? chunkString(JSON.stringify(encodeValue(entry.data)), PART_LENGTH)
+            : [undefined];
+
+          return parts.map((data, part) => ({
+            ref: entries.doc(this.partId(entrySeq, part)),
+            data: {
+              seq: entrySeq,
+              part,
+              parts: parts.length,
+              path: entry.path,
+              exists: entry.data !== undefined,
+              ...(data !== undefined ? { data } : {}),
+            },
+          }));
+        });
+
+        await Promise.all(
+          chunkArray(partDocs, PARTS_PER_REQUEST).map((chunk) => {
+            const batch = this.firestore.batch();
+            chunk.forEach((partDoc) => batch.create(partDoc.ref, partDoc.data));
+            return batch.commit();
+          })
+        );
+      },
+    };
+  }
+
+  /**
+   * Read the header of a backup
+   * @private
+   */
+  private async readBackupHeader(ref: BackupRef): Promise<BackupHeader> {
+    if (ref.type === "firestore") {
+      const snapshot = await this.firestore.doc(ref.path).get();
+      if (!snapshot.exists) {
+        throw new Error(`Backup not found: "${ref.path}"`);
+      }
+      return snapshot.data() as BackupHeader;
+    }
+
+    const stream = fs.createReadStream(ref.path, { encoding: "utf8" });
+    const lines = readline.createInterface({
+      input: stream,
+      crlfDelay: Infinity,
+    });
+
+    let firstLine = "";
+    for await (const line of lines) {
+      firstLine = line;
+      break;
+    }
+    stream.destroy();
+
+    let header: any;
+    try {
+      header = JSON.parse(firstLine);
+    } catch {
+      header = null;
+    }
+    if (!header || header.backup !== 1) {
+      throw new Error(`Not a backup file: "${ref.path}"`);
+    }
+
+    return header as BackupHeader;
+  }
+
+  /**
+   * Read the entries of a backup in the order they were saved
+   * @param batchSize - Entries per yielded chunk
+   * @private
+   */
+  private async *readBackup(
+    ref: BackupRef,
+    batchSize: number
+  ): AsyncGenerator<BackupEntry[]> {
+    if (ref.type === "firestore") {
+      const query = this.firestore
+        .doc(ref.path)
+        .collection(BACKUP_ENTRIES_COLLECTION)
+        .orderBy(FieldPath.documentId())
+        .limit(batchSize);
+      let lastDoc: QueryDocumentSnapshot<DocumentData> | undefined;
+      let chunk: BackupEntry[] = [];
+      let parts: string[] = [];
+
+      for (;;) {
+        const snapshot = await (
+          lastDoc ? query.startAfter(lastDoc) : query
+        ).get();
+
+        for (const doc of snapshot.docs) {
+          const { part, parts: partCount, path, exists, data } = doc.data();
+          if (part === 0) {
+            parts = [];
+          }
+
+          // Parts of an entry whose save did not finish are skipped
+          if (part !== parts.length) {
+            continue;
+          }
+          parts.push(data ?? "");
+          if (parts.length < partCount) {
+            continue;
+          }
+
+          chunk.push({
+            path,
+            data: exists
+              ? decodeValue(JSON.parse(parts.join("")), this.firestore)
+              : undefined,
+          });
+          parts = [];
+          if (chunk.length >= batchSize) {
+            yield chunk;
+            chunk = [];
+          }
+        }
+
+        if (snapshot.size < batchSize) {
+          break;
+        }
+        lastDoc = snapshot.docs[snapshot.docs.length - 1];
+      }
+
+      if (chunk.length > 0) {
+        yield chunk;
+      }
+      return;
+    }
+
+    const lines = readline.createInterface({
+      input: fs.createReadStream(ref.path, { encoding: "utf8" }),
+      crlfDelay: Infinity,
+    });
+
+    let chunk: BackupEntry[] = [];
+    let lineNumber = 0;
+
+    for await (const line of lines) {
+      lineNumber++;
+      // The first line is the header
+      if (lineNumber === 1 || line.trim() === "") {
+        continue;
+      }
+
+      let entry: any;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid backup entry on line ${lineNumber}`);
+      }
+      chunk.push({
+        path: entry.path,
+        data: entry.exists
+          ? decodeValue(entry.data, this.firestore)
+          : undefined,
+      });
+
+      if (chunk.length >= batchSize) {
+        yield chunk;
+        chunk = [];
+      }
+    }
+
+    if (chunk.length > 0) {
+      yield chunk;
+    }
+  }
+
+  /**
+   * Refuse checkpoint options that cannot be saved or resumed before anything is read
+   * @private
+   */
+  private validateCheckpoint(options: {
+    checkpoint?: CheckpointOptions;
+    batchSize?: number;
+    atomic?: boolean;
+  }): void {
+    const checkpoint = options.checkpoint;
+    if (checkpoint === undefined) {
+      return;
+    }
+
+    if (!checkpoint || typeof checkpoint !== "object") {
+      throw new Error("Invalid checkpoint option");
+    }
+    if ("path" in checkpoint) {
+      if (typeof checkpoint.path !== "string" || checkpoint.path.length === 0) {
+        throw new Error("Checkpoint path must be a non-empty string");
+      }
+    } else if (
+      typeof checkpoint.document !== "string" ||
+      checkpoint.document.length === 0
+    ) {
+      throw new Error("Checkpoint document must be a non-empty string");
+    }
+    if (
+      !(
+        options.batchSize !== undefined &&
+        Number.isInteger(options.batchSize) &&
+        options.batchSize > 0
+      )
+    ) {
+      throw new Error("checkpoint requires batchSize");
+    }
+    if (options.atomic) {
+      throw new Error("checkpoint cannot be combined with atomic");
+    }
+    if (this.state.predicates.length > 0) {
+      throw new Error("checkpoint cannot be used with filter() predicates");
+    }
+  }
+
+  /**
+   * Start a checkpoint for an operation on the current query
+   * A resumed operation keeps saving to the checkpoint it was resumed from
+   * @returns Writer, or null if the operation saves no checkpoint
+   * @private
+   */
+  private async createCheckpoint(
+    definition: OperationDefinition,
+    options: UpdateOptions & Pick<DeleteOptions, "recursive" | "maxDepth">
+  ): Promise<CheckpointWriter | null> {
+    if (this.resumePoint) {
+      return this.resumePoint.writer;
+    }
+    if (!options.checkpoint) {
+      return null;
+    }
+
+    const operation = this.toOperationJSON(
+      definition,
+      this.checkpointOptions(options)
+    );
+    const startedAt = new Date().toISOString();
+
+    if ("path" in options.checkpoint) {
+      const filePath = options.checkpoint.path;
+      if (fs.existsSync(filePath)) {
+        throw new Error(`Checkpoint file already exists: "${filePath}"`);
+      }
+
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(
+        filePath,
+        JSON.stringify({ checkpoint: 1, operation, startedAt }) + "\n"
+      );
+
+      return this.checkpointWriter({ type: "file", path: filePath }, 0);
+    }
+
+    // Stored as JSON, since encoded values and log options may hold undefined fields
+    const checkpointDoc = this.firestore.doc(options.checkpoint.document);
+    await checkpointDoc.create({
+      checkpoint: 1,
+      operation: JSON.stringify(operation),
+      startedAt,
+      pageCount: 0,
+    });
+
+    return this.checkpointWriter(
+      { type: "firestore", path: checkpointDoc.path },
+      0
+    );
+  }
+
+  /**
+   * Options stored with a checkpoint, so resume() runs the operation the same way
+   * Functions (onProgress, retry.shouldRetry) cannot be stored and are passed to resume() again
+   * @private
+   */
+  private checkpointOptions(
+    options: UpdateOptions & Pick<DeleteOptions, "recursive" | "maxDepth">
+  ): SerializedOperationOptions {
+    const { shouldRetry: _shouldRetry, ...retry } = options.retry ?? {};
+    const throttle =
+      options.throttle instanceof Throttle
+        ? options.throttle.limits
+        : options.throttle;
+
+    return {
+      batchSize: options.batchSize,
+      ...(options.log && { log: { ...options.log } }),
+      ...(options.retry && { retry }),
+      ...(throttle && { throttle: { ...throttle } }),
+      ...(options.precondition && { precondition: options.precondition }),
+      ...(options.conflictRetries !== undefined && {
+        conflictRetries: options.conflictRetries,
+      }),
+      ...(options.recursive && { recursive: true }),
+      ...(options.maxDepth !== undefined && { maxDepth: options.maxDepth }),
+    };
+  }
+
+  /**
+   * Create a writer that appends finished pages to a checkpoint
+   * @param pageCount - Pages the checkpoint already holds
+   * @private
+   */
+  private checkpointWriter(
+    ref: CheckpointRef,
+    pageCount: number
+  ): CheckpointWriter {
+    if (ref.type === "file") {
+      return {
+        ref,
+        save: async (page) => {
+          fs.appendFileSync(ref.path, JSON.stringify(page) + "\n");
+        },
+        complete: async () => {
+          fs.appendFileSync(
+            ref.path,
+            JSON.stringify({ completedAt: new Date().toISOString() }) + "\n"
+          );
+        },
+      };
+    }
+
+    const checkpointDoc = this.firestore.doc(ref.path);
+    const pages = checkpointDoc.collection(CHECKPOINT_PAGES_COLLECTION);
+    let seq = pageCount;
+
+    return {
+      ref,
+      save: async (page) => {
+        // Large pages are split, as a document holds at most 1 MiB
+        const parts = chunkString(JSON.stringify(page), PART_LENGTH);
+        const partDocs = parts.map((data, part) => ({
+          ref: pages.doc(this.partId(seq, part)),
+          data: { seq, part, parts: parts.length, data },
+        }));
+
+        // Parts only count once the page count includes their page, so the last part
+        // and the page count are committed together and a page is saved completely or not at all.
+        // Parts left by a save that did not finish are overwritten
+        const last = partDocs.pop()!;
+        for (const chunk of chunkArray(partDocs, PARTS_PER_REQUEST)) {
+          const batch = this.firestore.batch();
+          chunk.forEach((partDoc) => batch.set(partDoc.ref, partDoc.data));
+          await batch.commit();
+        }
+
+        const batch = this.firestore.batch();
+        batch.set(last.ref, last.data);
+        batch.update(checkpointDoc, {
+          pageCount: seq + 1,
+          updatedAt: page.savedAt,
+        });
+        await batch.commit();
+        seq++;
+      },
+      complete: async () => {
+        await checkpointDoc.update({ completedAt: new Date().toISOString() });
+      },
+    };
+  }
+
+  /**
+   * Read a checkpoint and fold its pages into the progress of all runs so far
+   * Pages are read one at a time, so only the folded ID lists and entries are held in memory.
+   * A last line cut off while it was appended is dropped from the file, so the page runs again
+   * @private
+   */
+  private async readCheckpoint(
+    ref: CheckpointRef
+  ): Promise<SavedCheckpoint & { pageCount: number }> {
+    let header: any;
+    let completedAt: string | undefined;
+    let pageCount = 0;
+    let last: CheckpointPage | undefined;
+    const succeededIds: string[] = [];
+    const failedDocIds: string[] = [];
+    const missingDocIds: string[] = [];
+    const conflictedDocIds: string[] = [];
+    const entries: LogEntry[] = [];
+
+    const append = <T>(target: T[], items: T[] = []) => {
+      for (const item of items) {
+        target.push(item);
+      }
+    };
+    const addPage = (page: CheckpointPage) => {
+      append(succeededIds, page.succeededIds);
+      append(failedDocIds, page.failedDocIds);
+      append(missingDocIds, page.missingDocIds);
+      append(conflictedDocIds, page.conflictedDocIds);
+      append(entries, page.entries);
+      last = page;
+      pageCount++;
+    };
+
+    if (ref.type === "firestore") {
+      const checkpointDoc = this.firestore.doc(ref.path);
+      const snapshot = await checkpointDoc.get();
+      if (!snapshot.exists) {
+        throw new Error(`Checkpoint not found: "${ref.path}"`);
+      }
+
+      const data = snapshot.data()!;
+      if (data.checkpoint !== 1) {
+        throw new Error(`Not a checkpoint: "${ref.path}"`);
+      }
+      header = { ...data, operation: JSON.parse(data.operation) };
+      completedAt = data.completedAt;
+
+      for await (const page of this.readCheckpointPages(
+        checkpointDoc,
+        data.pageCount
+      )) {
+        addPage(page);
+      }
+    } else {
+      if (!fs.existsSync(ref.path)) {
+        throw new Error(`Checkpoint not found: "${ref.path}"`);
+      }
+
+      const size = fs.statSync(ref.path).size;
+      const lines = readline.createInterface({
+        input: fs.createReadStream(ref.path, { encoding: "utf8" }),
+        crlfDelay: Infinity,
+      });
+      let lineNumber = 0;
+      let completeBytes = 0;
+
+      for await (const line of lines) {
+        lineNumber++;
+
+        // Only lines ending with a newline were written completely
+        const lineBytes = Buffer.byteLength(line) + 1;
+        if (completeBytes + lineBytes > size) {
+          break;
+        }
+        completeBytes += lineBytes;
+
+        if (lineNumber === 1) {
+          try {
+            header = JSON.parse(line);
+          } catch {
+            header = null;
+          }
+          if (!header || header.checkpoint !== 1) {
+            break;
+          }
+          continue;
+        }
+        if (line.trim() === "") {
+          continue;
+        }
+
+        let record: any;
+        try {
+          record = JSON.parse(line);
+        } catch {
+          throw new Error(`Invalid checkpoint record on line ${lineNumber}`);
+        }
+        if (record.completedAt) {
+          completedAt = record.completedAt;
+        } else {
+          addPage(record);
+        }
+      }
+
+      if (!header || header.checkpoint !== 1) {
+        throw new Error(`Not a checkpoint file: "${ref.path}"`);
+      }
+      if (completeBytes < size) {
+        fs.truncateSync(ref.path, completeBytes);
+      }
+    }
+
+    return {
+      operation: header.operation,
+      startedAt: header.startedAt,
+      completedAt,
+      pageCount,
+      progress: {
+        cursor: last?.cursor,
+        savedAt: last?.savedAt ?? header.startedAt,
+        processedCount: last?.processedCount ?? 0,
+        successCount: last?.successCount ?? 0,
+        failureCount: last?.failureCount ?? 0,
+        skippedCount: last?.skippedCount ?? 0,
+        retriedCount: last?.retriedCount ?? 0,
+        succeededIds,
+        failedDocIds,
+        missingDocIds,
+        conflictedDocIds,
+        entries,
+      },
+    };
+  }
+
+  /**
+   * Read the saved pages of a Firestore checkpoint one at a time, joining the parts of each
+   * Parts of a page whose save did not finish are skipped
+   * @param pageCount - Pages the checkpoint holds
+   * @private
+   */
+  private async *readCheckpointPages(
+    checkpointDoc: DocumentReference<DocumentData>,
+    pageCount: number
+  ): AsyncGenerator<CheckpointPage> {
+    const query = checkpointDoc
+      .collection(CHECKPOINT_PAGES_COLLECTION)
+      .orderBy(FieldPath.documentId())
+      .limit(PARTS_PER_REQUEST);
+    let lastDoc: QueryDocumentSnapshot<DocumentData> | undefined;
+    let parts: string[] = [];
+    let partCount = 0;
+
+    for (;;) {
+      const snapshot = await (
+        lastDoc ? query.startAfter(lastDoc) : query
+      ).get();
+
+      for (const doc of snapshot.docs) {
+        const { seq, part, parts: count, data } = doc.data();
+        if (seq >= pageCount) {
+          return;
+        }
+        if (part === 0) {
+          parts = [];
+          partCount = count;
+        }
+
+        // Parts beyond the count of the saved page were left by an earlier save that did not finish
+        if (part !== parts.length || parts.length >= partCount) {
+          continue;
+        }
+        parts.push(data);
+        if (parts.length === partCount) {
+          yield JSON.parse(parts.join(""));
+        }
+      }
+
+      if (snapshot.size < PARTS_PER_REQUEST) {
+        return;
+      }
+      lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    }
+  }
+
+  /**
+   * ID of a checkpoint page or backup entry part, so parts sort by page or entry and then by part
+   * @private
+   */
+  private partId(seq: number, part: number): string {
+    return `${String(seq).padStart(10, "0")}-${String(part).padStart(6, "0")}`;
+  }
+
+  /**
+   * Progress to save after a finished page
+   * @param start - Lengths of the ID lists and log entries before the page
+   * @private
+   */
+  private checkpointPage(
+    state: WriteState,
+    logCollector: LogCollector | null,
+    start: CheckpointMark
+  ): CheckpointPage {
+    return {
+      cursor: state.lastCursor,
+      savedAt: new Date().toISOString(),
+      processedCount: state.processedCount,
+      successCount: state.successCount,
+      failureCount: state.failureCount,
+      skippedCount: state.skippedCount,
+      retriedCount: state.retriedCount,
+      succeededIds: state.succeededIds.slice(start.succeededIds),
+      failedDocIds: state.failedDocIds.slice(start.failedDocIds),
+      missingDocIds: state.missingDocIds.slice(start.missingDocIds),
+      conflictedDocIds: state.conflictedDocIds.slice(start.conflictedDocIds),
+      entries: logCollector?.getEntries().slice(start.entries),
+    };
+  }
+
+  /**
+   * Lengths of the ID lists and log entries, taken before a page is processed
+   * @private
+   */
+  private checkpointMark(
+    state: WriteState,
+    logCollector: LogCollector | null
+  ): CheckpointMark {
+    return {
+      succeededIds: state.succeededIds.length,
+      failedDocIds: state.failedDocIds.length,
+      missingDocIds: state.missingDocIds.length,
+      conflictedDocIds: state.conflictedDocIds.length,
+      entries: logCollector?.getEntries().length ?? 0,
+    };
+  }
+
+  /**
+   * Wrap a writer so writes to the document require it to be unchanged since it was read
+   * Writes to other documents (e.g., descendants of a recursive delete) are passed through
+   * @private
+   */
+  private withPrecondition(
+    writer: DocumentWriter,
+    doc: QueryDocumentSnapshot<DocumentData>
+  ): DocumentWriter {
+    const precondition: Precondition = { lastUpdateTime: doc.updateTime };
+    const isDoc = (ref: DocumentReference) => ref.path === doc.ref.path;
+
+    return {
+      create(ref, data) {
+        return writer.create(ref, data);
+      },
+      set(
+        ref: DocumentReference<DocumentData>,
+        data: DocumentData,
+        setOptions?: SetOptions
+      ) {
+        return setOptions
+          ? writer.set(ref, data, setOptions)
+          : writer.set(ref, data);
+      },
+      update(ref, data) {
+        return isDoc(ref)
+          ? writer.update(ref, data, precondition)
+          : writer.update(ref, data);
+      },
+      delete(ref) {
+        return isDoc(ref)
+          ? writer.delete(ref, precondition)
+          : writer.delete(ref);
+      },
+    };
+  }
+
+  /**
+   * Read conflicting documents again and keep those that still match the query
+   * Documents that were deleted or no longer match are skipped
+   * @private
+   */
+  private async rereadConflicts(
+    refs: DocumentReference<DocumentData>[],
+    state: WriteState,
+    options: { onProgress?: (progress: ProgressInfo) => void },
+    logCollector: LogCollector | null
+  ): Promise<QueryDocumentSnapshot<DocumentData>[]> {
+    const docs: QueryDocumentSnapshot<DocumentData>[] = [];
+
+    for (const chunk of chunkArray(refs, DEFAULT_PAGE_SIZE)) {
+      for (const snapshot of await this.firestore.getAll(...chunk)) {
+        const data = snapshot.data();
+
+        if (
+          data &&
+          matchesConditions(data, this.state.conditions) &&
+          this.state.predicates.every((p) => p(data, snapshot.ref))
+        ) {
+          docs.push(snapshot as QueryDocumentSnapshot<DocumentData>);
+        } else {
+          this.recordSkipped(
+            state,
+            options,
+            logCollector,
+            this.docKey(snapshot.ref)
+          );
+        }
+      }
+    }
+
+    return docs;
+  }
+
+  /**
+   * Hand every page of matching documents to processPage
+   * When batchSize is set, documents are fetched and processed page by page
+   * using cursor pagination; otherwise all documents are loaded at once.
+   * With a checkpoint, the progress is saved after each finished page, and a
+   * resumed operation continues after the last saved page
+   * @private
+   */
+  private async processMatches(
+    options: {
+      batchSize?: number;
+      atomic?: boolean;
+      throttle?: ThrottleOptions | Throttle;
+      signal?: AbortSignal;
+      onAbort?: AbortPolicy;
+    },
+    logCollector: LogCollector | null,
+    processPage: (
+      docs: QueryDocumentSnapshot<DocumentData>[],
+      state: WriteState
+    ) => Promise<void>,
+    checkpoint: CheckpointWriter | null = null
+  ): Promise<WriteState> {
+    const batchSize =
+      options.batchSize && options.batchSize > 0
+        ? options.batchSize
+        : undefined;
+    const throttle = this.resolveThrottle(options);
+
+    let pages: AsyncIterable<DocumentPage> | DocumentPage[];
+    let totalCount: number;
+
+    if (options.atomic) {
+      // Refuse before reading or writing anything if one batch cannot hold the matches
+      this.validateAtomicCount(await this.countMatches(DEFAULT_PAGE_SIZE));
+
+      // All documents must be written in one batch, so they are loaded at once
+      const page = await this.fetchAll();
+      totalCount =
+        page.docs.length + page.missingIds.length + page.rejectedCount;
+      pages = [page];
+    } else if (batchSize) {
+      // First, get total count for progress tracking
+      // (a resumed operation counts what is left after its cursor)
+      const start = this.resumePoint?.progress.cursor ?? null;
+      totalCount =
+        (this.resumePoint?.progress.processedCount ?? 0) +
+        (await this.countMatches(batchSize, throttle, start));
+      pages = this.fetchPages(batchSize, undefined, throttle, start);
+    } else {
+      // Original behavior: load all documents at once
+      const page = await this.fetchAll();
+      totalCount =
+        page.docs.length + page.missingIds.length + page.rejectedCount;
+      pages = [page];
+    }
+
+    const state = this.createWriteState(totalCount, throttle, options);
+
+    // A resumed operation continues the counts and IDs of its earlier runs
+    const resumed = this.resumePoint?.progress;
+    if (resumed) {
+      state.processedCount = resumed.processedCount;
+      state.successCount = resumed.successCount;
+      state.failureCount = resumed.failureCount;
+      state.skippedCount = resumed.skippedCount;
+      state.retriedCount = resumed.retriedCount;
+      state.succeededIds = [...resumed.succeededIds];
+      state.failedDocIds = [...resumed.failedDocIds];
+      state.missingDocIds = [...resumed.missingDocIds];
+      state.conflictedDocIds = [...resumed.conflictedDocIds];
+      state.lastCursor = resumed.cursor;
+    }
+
+    if (state.signal?.aborted) {
+      this.recordAbort(state, logCollector);
+      return state;
+    }
+
+    // Nothing (left) to process
+    if (totalCount === (resumed?.processedCount ?? 0)) {
+      await checkpoint?.complete();
+      return state;
+    }
+
+    for await (const page of pages) {
+      const mark = checkpoint && this.checkpointMark(state, logCollector);
+
+      // Missing documents are reported separately and not counted as processed
+      for (const docId of page.missingIds) {
+        state.missingDocIds.push(docId);
+        logCollector?.addEntry(docId, "missing");
+      }
+      state.totalCount -= page.missingIds.length + page.rejectedCount;
+
+      if (page.docs.length > 0) {
+        await processPage(page.docs, state);
+      }
+
+      // A page whose writes were abandoned is not finished, so the cursor stays before it
+      if (!state.aborted) {
+        state.lastCursor = page.cursor;
+
+        if (checkpoint && mark) {
+          await checkpoint.save(this.checkpointPage(state, logCollector, mark));
+        }
+      }
+
+      // Stop before the next page is fetched
+      if (state.signal?.aborted) {
+        this.recordAbort(state, logCollector);
+        break;
+      }
+    }
+
+    if (!state.aborted) {
+      await checkpoint?.complete();
+    }
+
+    return state;
+  }
+
+  /**
+   * Copy every matching document to its target, and delete the sources after
+   * their target writes succeeded when moving
+   * @private
+   */
+  private async transferMatches(
+    operation: "copy" | "move",
+    options: CopyOptions,
+    logCollector: LogCollector | null,
+    resolveTarget: TransferTarget
+  ): Promise<WriteState> {
+    const targetFirestore = options.firestore ?? this.firestore;
+    const onConflict = options.onConflict ?? "skip";
+    const retry = resolveRetryPolicy(options.retry);
+
+    if (!["skip", "overwrite", "merge"].includes(onConflict)) {
+      throw new Error(`Invalid onConflict option: "${onConflict}"`);
+    }
+
+    // Target paths of the run, so two sources never write the same document
+    // (e.g., the same ID under different parents of a collection group)
+    const targetPaths = new Set<string>();
+
+    return this.processMatches(options, logCollector, async (docs, state) => {
+      const transfers: DocumentTransfer[] = [];
+
+      for (const doc of docs) {
+        const docId = this.docKey(doc.ref);
+        const data = options.transform
+          ? this.applyTransform(
+              options.transform,
+              doc,
+              state,
+              options,
+              logCollector
+            )
+          : doc.data();
+
+        if (!data) {
+          continue;
+        }
+
+        let target: ReturnType<TransferTarget>;
+        try {
+          target = resolveTarget(doc, data);
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          this.recordFailure(state, options, logCollector, docId, message);
+          continue;
+        }
+
+        if (
+          targetFirestore === this.firestore &&
+          target.ref.path === doc.ref.path
+        ) {
+          this.recordFailure(
+            state,
+            options,
+            logCollector,
+            docId,
+            "Source and target are the same document"
+          );
+          continue;
+        }
+
+        if (targetPaths.has(target.ref.path)) {
+          this.recordFailure(
+            state,
+            options,
+            logCollector,
+            docId,
+            `Another document of this run is written to ${target.ref.path}`
+          );
+          continue;
+        }
+        targetPaths.add(target.ref.path);
+
+        transfers.push({
+          doc,
+          targetRef: target.ref,
+          data: target.data,
+          descendants: [],
+          keptDescendants: new Set(),
+        });
+      }
+
+      let pending = transfers;
+
+      // Leave existing target documents (and their sources) untouched
+      if (onConflict === "skip" && pending.length > 0) {
+        const existing = new Set<string>();
+        for (const chunk of chunkArray(pending, DEFAULT_PAGE_SIZE)) {
+          const snapshots = await targetFirestore.getAll(
+            ...chunk.map((t) => t.targetRef),
+            { fieldMask: [] }
+          );
+          for (const snapshot of snapshots) {
+            if (snapshot.exists) {
+              existing.add(snapshot.ref.path);
+            }
+          }
+        }
+
+        pending = pending.filter((transfer) => {
+          if (existing.has(transfer.targetRef.path)) {
+            this.recordSkipped(
+              state,
+              options,
+              logCollector,
+              this.docKey(transfer.doc.ref)
+            );
+            return false;
+          }
+          return true;
+        });
+      }
+
+      if (options.includeSubcollections) {
+        for (const transfer of pending) {
+          transfer.descendants = await this.listDescendants(transfer.doc.ref);
+        }
+      }
+
+      const rebind = targetFirestore !== this.firestore;
+      const { failures, retried } = await this.runTransferWrites(
+        targetFirestore,
+        retry,
+        state.throttle,
+        (track) => {
+          for (const transfer of pending) {
+            const writes = [
+              { ref: transfer.targetRef, data: transfer.data },
+              ...transfer.descendants.map((d) => ({
+                ref: targetFirestore.doc(
+                  `${transfer.targetRef.path}/${d.path}`
+                ),
+                data: d.data,
+              })),
+            ];
+
+            writes.forEach(({ ref, data }, i) => {
+              const value = rebind
+                ? this.rebindReferences(data, targetFirestore)
+                : data;
+              track(
+                transfer,
+                (bulkWriter) =>
+                  this.queueTransferWrite(bulkWriter, ref, value, onConflict),
+                // Existing subcollection documents are kept in "skip" mode,
+                // and so are their sources
+                i > 0 && onConflict === "skip"
+                  ? () =>
+                      transfer.keptDescendants.add(
+                        transfer.descendants[i - 1].path
+                      )
+                  : undefined
+              );
+            });
+          }
+        }
+      );
+
+      // Sources are deleted only after every write of the document succeeded.
+      // A descendant whose target already existed was not copied, so it stays
+      if (operation === "move") {
+        const copied = pending.filter((t) => !failures.has(t));
+        const deletes = await this.runTransferWrites(
+          this.firestore,
+          retry,
+          state.throttle,
+          (track) => {
+            for (const transfer of copied) {
+              const copiedDescendants = transfer.descendants.filter(
+                (d) => !transfer.keptDescendants.has(d.path)
+              );
+              for (const ref of [
+                transfer.doc.ref,
+                ...copiedDescendants.map((d) => d.ref),
+              ]) {
+                track(transfer, (bulkWriter) => bulkWriter.delete(ref));
+              }
+            }
+          }
+        );
+
+        deletes.retried.forEach((transfer) => retried.add(transfer));
+        deletes.failures.forEach((message, transfer) => {
+          failures.set(
+            transfer,
+            `Copied to ${transfer.targetRef.path}, but deleting the source failed: ${message}`
+          );
+        });
+      }
+
+      for (const transfer of pending) {
+        const docId = this.docKey(transfer.doc.ref);
+        const failure = failures.get(transfer);
+
+        if (failure === undefined) {
+          if (retried.has(transfer)) {
+            state.retriedCount++;
+          }
+          this.recordSuccess(state, options, logCollector, docId);
+        } else {
+          this.recordFailure(state, options, logCollector, docId, failure);
+        }
+      }
+    });
+  }
+
+  /**
+   * Target of copyTo() / moveTo(): the same or a mapped ID in the target collection
+   * @private
+   */
+  private collectionTarget(
+    targetCollection: string,
+    options: CopyOptions
+  ): TransferTarget {
+    const target = (options.firestore ?? this.firestore).collection(
+      targetCollection
+    );
+
+    return (doc, data) => {
+      try {
+        return {
+          ref: target.doc(
+            options.mapId ? options.mapId(doc.id, doc.data()) : doc.id
+          ),
+          data,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid target ID: ${message}`);
+      }
+    };
+  }
+
+  /**
+   * Queue a copy write according to the conflict mode
+   * @private
+   */
+  private queueTransferWrite(
+    bulkWriter: BulkWriter,
+    ref: DocumentReference<DocumentData>,
+    data: DocumentData,
+    onConflict: CopyConflictMode
+  ): Promise<unknown> {
+    switch (onConflict) {
+      case "overwrite":
+        return bulkWriter.set(ref, data);
+      case "merge":
+        return bulkWriter.set(ref, data, { merge: true });
+      case "skip":
+        // create() also protects documents written after the existence check
+        return bulkWriter.create(ref, data);
+    }
+  }
+
+  /**
+   * Run a BulkWriter for copyTo() / moveTo() and collect the first error of each transfer
+   * Writes that failed with a retryable error are queued again on a new BulkWriter after the backoff delay
+   * @returns Error messages keyed by transfer (transfers without errors are absent),
+   * and the transfers that needed a retry
+   * @private
+   */
+  private async runTransferWrites(
+    firestore: Firestore,
+    retry: RetryPolicy,
+    throttle: Throttle | null,
+    queueWrites: (
+      track: (
+        transfer: DocumentTransfer,
+        write: (bulkWriter: BulkWriter) => Promise<unknown>,
+        onExisting?: () => void
+      ) => void
+    ) => void
+  ): Promise<{
+    failures: Map<DocumentTransfer, string>;
+    retried: Set<DocumentTransfer>;
+  }> {
+    const failures = new Map<DocumentTransfer, string>();
+    const retried = new Set<DocumentTransfer>();
+
+    let pending: TransferWrite[] = [];
+    queueWrites((transfer, write, onExisting) => {
+      pending.push({ transfer, write, onExisting });
+    });
+
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      const bulkWriter = firestore.bulkWriter(throttle?.bulkWriterOptions());
+      const retries: TransferWrite[] = [];
+      const writes: Promise<void>[] = [];
+
+      // Return false to not retry (we'll collect all errors)
+      bulkWriter.onWriteError(() => false);
+
+      await this.sendWrites(bulkWriter, pending, throttle, (tracked) => {
+        // Invalid data is rejected before it is queued and fails only its own transfer
+        let sent: Promise<unknown>;
+        try {
+          sent = tracked.write(bulkWriter);
+        } catch (error) {
+          if (!failures.has(tracked.transfer)) {
+            failures.set(
+              tracked.transfer,
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+          return undefined;
+        }
+
+        const write = sent.then(
+          () => {
+            if (attempt > 1) {
+              retried.add(tracked.transfer);
+            }
+          },
+          (error) => {
+            if (tracked.onExisting && error.code === ALREADY_EXISTS_CODE) {
+              tracked.onExisting();
+              return;
+            }
+            if (
+              shouldRetryWrite(retry, {
+                path: error.documentRef?.path ?? "",
+                code: error.code,
+                message: error.message,
+                attempt,
+              })
+            ) {
+              retries.push(tracked);
+              return;
+            }
+            if (!failures.has(tracked.transfer)) {
+              failures.set(tracked.transfer, error.message);
+            }
+          }
+        );
+        writes.push(write);
+        return write;
+      });
+
+      await bulkWriter.close();
+      await Promise.all(writes);
+
+      pending = retries;
+      if (pending.length > 0) {
+        await sleep(retryDelay(retry, attempt));
+      }
+    }
+
+    return { failures, retried };
+  }
+
+  /**
+   * List every document in the subcollections below a document, recursively
+   * Documents that do not exist but have subcollections are walked through
+   * without being listed themselves
+   * @param maxDepth - Number of subcollection levels to walk (default: all)
+   * @private
+   */
+  private async listDescendants(
+    ref: DocumentReference<DocumentData>,
+    maxDepth = Infinity,
+    prefix = ""
+  ): Promise<DescendantDocument[]> {
+    const descendants: DescendantDocument[] = [];
+
+    if (maxDepth <= 0) {
+      return descendants;
+    }
+
+    for (const collection of await ref.listCollections()) {
+      const refs = await collection.listDocuments();
+
+      for (const chunk of chunkArray(refs, DEFAULT_PAGE_SIZE)) {
+        for (const snapshot of await this.firestore.getAll(...chunk)) {
+          const path = `${prefix}${collection.id}/${snapshot.id}`;
+
+          if (snapshot.exists) {
+            descendants.push({
+              path,
+              ref: snapshot.ref,
+              data: snapshot.data()!,
+            });
+          }
+          descendants.push(
+            ...(await this.listDescendants(
+              snapshot.ref,
+              maxDepth - 1,
+              `${path}/`
+            ))
+          );
+        }
+      }
+    }
+
+    return descendants;
+  }
+
+  /**
+   * Point document references in copied data at the target Firestore instance
+   * @private
+   */
+  private rebindReferences(value: any, firestore: Firestore): any {
+    if (value instanceof DocumentReference) {
+      return firestore.doc(value.path);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.rebindReferences(item, firestore));
+    }
+    if (
+      value !== null &&
+      typeof value === "object" &&
+      Object.getPrototypeOf(value) === Object.prototype
+    ) {
+      const map: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        map[key] = this.rebindReferences(item, firestore);
+      }
+      return map;
+    }
+    return value;
+  }
+
+  /**
+   * Count matching documents (requested IDs in docs() mode)
+   * @param throttle - Paces the pages read when counting client-side
+   * @param start - Only count documents after this cursor (resume())
+   * @private
+   */
+  private async countMatches(
+    batchSize: number,
+    throttle: Throttle | null = null,
+    start: PageCursor | null = null
+  ): Promise<number> {
+    if (this.state.docIds) {
+      return this.state.docIds.length - (start?.docOffset ?? 0);
+    }
+
+    const plan = this.buildQueryPlan();
+
+    if (plan.postFilters.length === 0 && plan.disjoint) {
+      let count = 0;
+      for (const [queryIndex, query] of plan.queries.entries()) {
+        if (start && queryIndex < start.queryIndex) {
+          continue;
+        }
+        const countQuery =
+          start && queryIndex === start.queryIndex
+            ? this.startAfterCursor(query, start)
+            : query;
+        const countSnapshot = await countQuery.count().get();
+        count += countSnapshot.data().count;
+      }
+      return this.state.limitCount !== undefined && this.state.limitCount > 0
+        ? Math.min(count, this.state.limitCount - (start?.readCount ?? 0))
+        : count;
+    }
+
+    // Overlapping or post-filtered results cannot be counted server-side,
+    // so read them once page by page and count what remains
+    let count = 0;
+    for await (const page of this.fetchPages(
+      batchSize,
+      undefined,
+      throttle,
+      start
+    )) {
+      count += page.docs.length;
+    }
+    return count;
+  }
+
+  /**
+   * Load all matching documents at once
+   * @param fields - Only fetch these fields
+   * @private
+   */
+  private async fetchAll(fields?: string[]): Promise<DocumentPage> {
+    const plan = this.state.docIds ? null : this.buildQueryPlan(fields);
+
+    if (plan && plan.queries.length === 1 && plan.postFilters.length === 0) {
+      const snapshot = await plan.queries[0].get();
+      return { docs: snapshot.docs, missingIds: [], rejectedCount: 0 };
+    }
+
+    // Merged or post-filtered results cannot rely on the server-side limit,
+    // so read them page by page until enough documents match
+    const result: DocumentPage = { docs: [], missingIds: [], rejectedCount: 0 };
+
+    for await (const page of this.fetchPages(DEFAULT_PAGE_SIZE, fields)) {
+      result.docs.push(...page.docs);
+      result.missingIds.push(...page.missingIds);
+      result.rejectedCount += page.rejectedCount;
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch matching documents page by page
+   * Queries use cursor pagination; docs() mode reads IDs in chunks with getAll()
+   * @param batchSize - Maximum number of documents per page
+   * @param fields - Only fetch these fields
+   * @param throttle - Counts each page's documents against maxOpsPerSecond before reading it
+   * @param start - Continue after this cursor (resume())
+   * @private
+   */
+  private async *fetchPages(
+    batchSize: number,
+    fields?: string[],
+    throttle: Throttle | null = null,
+    start: PageCursor | null = null
+  ): AsyncGenerator<DocumentPage> {
+    if (this.state.docIds) {
+      const refs = this.state.docIds.map((id) => this.docRef(id));
+      const fieldMask = this.projection(fields);
+      let docOffset = start?.docOffset ?? 0;
+      let readCount = start?.readCount ?? 0;
+
+      for (const chunk of chunkArray(refs.slice(docOffset), batchSize)) {
+        await throttle?.pace(chunk.length);
+        const snapshots = fieldMask
+          ? await this.firestore.getAll(...chunk, { fieldMask })
+          : await this.firestore.getAll(...chunk);
+        const page: DocumentPage = {
+          docs: [],
+          missingIds: [],
+          rejectedCount: 0,
         };
 
-        if (logCollector && options.log) {
-          result.logFilePath = logCollector.finalize(options.log);
+        for (const snapshot of snapshots) {
+          if (!snapshot.exists) {
+            page.missingIds.push(this.docKey(snapshot.ref));
+          } else if (
+            this.state.predicates.every((p) =>
+              p(snapshot.data()!, snapshot.ref)
+            )
+          ) {
+            page.docs.push(snapshot as QueryDocumentSnapshot<DocumentData>);
+          } else {
+            page.rejectedCount++;
+          }
         }
 
-        return result;
+        docOffset += chunk.length;
+        readCount += page.docs.length;
+        page.cursor = { queryIndex: 0, docOffset, readCount };
+
+        yield page;
+      }
+      return;
+    }
+
+    const plan = this.buildQueryPlan(fields);
+    const order = this.cursorOrder();
+    const seen = new Set<string>();
+    let readCount = start?.readCount ?? 0;
+    let remaining =
+      this.state.limitCount !== undefined && this.state.limitCount > 0
+        ? this.state.limitCount - readCount
+        : Infinity;
+
+    for (const [queryIndex, query] of plan.queries.entries()) {
+      if (start && queryIndex < start.queryIndex) {
+        continue;
       }
 
-      let processedCount = 0;
+      // A resumed operation continues after the last document of its cursor
+      const firstQuery =
+        start && queryIndex === start.queryIndex
+          ? this.startAfterCursor(query, start)
+          : query;
       let lastDoc: QueryDocumentSnapshot<DocumentData> | null = null;
 
-      while (true) {
-        // Build paginated query
-        let paginatedQuery = this.buildQuery().limit(options.batchSize);
+      while (remaining > 0) {
+        // Build paginated query without exceeding the overall limit
+        const pageSize = Math.min(batchSize, remaining);
+        let paginatedQuery: Query<DocumentData> = (
+          lastDoc ? query : firstQuery
+        ).limit(pageSize);
         if (lastDoc) {
           paginatedQuery = paginatedQuery.startAfter(lastDoc);
         }
 
+        await throttle?.pace(pageSize);
         const snapshot = await paginatedQuery.get();
 
         if (snapshot.empty) {
           break;
         }
 
-        // Process this batch
-        const bulkWriter = this.firestore.bulkWriter();
-        const docIdMap = new Map<string, string>();
+        const docs = filterSubQueryDocs(
+          snapshot.docs,
+          plan.disjoint,
+          plan.postFilters,
+          seen
+        );
 
-        for (const doc of snapshot.docs) {
-          docIdMap.set(doc.ref.path, doc.id);
+        // Update cursor for next batch
+        const last = snapshot.docs[snapshot.docs.length - 1];
+        lastDoc = last;
+        remaining -= docs.length;
+        readCount += docs.length;
+
+        yield {
+          docs,
+          missingIds: [],
+          rejectedCount: 0,
+          cursor: {
+            queryIndex,
+            lastDoc: last.ref.path,
+            orderValues: order.map((o) => encodeValue(last.get(o.field))),
+            readCount,
+          },
+        };
+
+        // If the server returned fewer docs than requested, this query is exhausted
+        if (snapshot.docs.length < pageSize) {
+          break;
         }
+      }
+    }
+  }
 
-        bulkWriter.onWriteResult((ref) => {
-          successCount++;
-          processedCount++;
+  /**
+   * Fields Firestore orders query results by, before the document ID
+   * orderBy() fields come first. Fields of inequality conditions follow, sorted and
+   * in the direction of the last orderBy(), as Firestore orders by them implicitly
+   * @private
+   */
+  private cursorOrder(): OrderByCondition[] {
+    const explicit = this.state.orderByConditions;
+    const ordered = new Set(explicit.map((o) => o.field));
+    const direction = explicit[explicit.length - 1]?.direction ?? "asc";
+    const fields = new Set<string>();
+
+    const collect = (conditions: readonly FilterCondition[]) => {
+      for (const condition of conditions) {
+        if (isCompositeCondition(condition)) {
+          collect(condition.conditions);
+        } else if (
+          INEQUALITY_OPERATORS.includes(condition.operator) &&
+          !ordered.has(condition.field) &&
+          condition.field !== "__name__"
+        ) {
+          fields.add(condition.field);
+        }
+      }
+    };
+    collect(this.state.conditions);
+
+    // Field paths are compared segment by segment
+    const implicit = Array.from(fields).sort((a, b) => {
+      const x = a.split(".");
+      const y = b.split(".");
+      for (let i = 0; i < Math.min(x.length, y.length); i++) {
+        if (x[i] !== y[i]) {
+          return x[i] < y[i] ? -1 : 1;
+        }
+      }
+      return x.length - y.length;
+    });
 
-          const docId = docIdMap.get(ref.path) || ref.id;
-          deletedIds.push(docId);
-          logCollector?.addEntry(docId, "success");
+    return [...explicit, ...implicit.map((field) => ({ field, direction }))];
+  }
 
-          if (options.onProgress) {
-            const progress = calculateProgress(processedCount, totalCount);
-            options.onProgress(progress);
-          }
-        });
+  /**
+   * Continue a query after the last document of a saved cursor
+   * The document may have changed or been deleted since, so the saved values are
+   * used, and every field results are ordered by is ordered by explicitly
+   * @private
+   */
+  private startAfterCursor(
+    query: Query<DocumentData>,
+    cursor: PageCursor
+  ): Query<DocumentData> {
+    if (!cursor.lastDoc) {
+      return query;
+    }
 
-        bulkWriter.onWriteError((error) => {
-          failureCount++;
-          processedCount++;
+    const order = this.cursorOrder();
+    let result = query;
+    for (const o of order.slice(this.state.orderByConditions.length)) {
+      result = result.orderBy(o.field, o.direction);
+    }
 
-          const docId = error.documentRef?.id || "unknown";
-          failedDocIds.push(docId);
-          logCollector?.addEntry(docId, "failure", error.message);
+    return result
+      .orderBy(
+        FieldPath.documentId(),
+        order[order.length - 1]?.direction ?? "asc"
+      )
+      .startAfter(
+        ...(cursor.orderValues ?? []).map((v) =>
+          decodeValue(v, this.firestore)
+        ),
+        this.firestore.doc(cursor.lastDoc)
+      );
+  }
 
-          if (options.onProgress) {
-            const progress = calculateProgress(processedCount, totalCount);
-            options.onProgress(progress);
-          }
+  /**
+   * Resolve a document ID from docs() to a reference
+   * Collection groups take full document paths within the group
+   * @private
+   */
+  private docRef(id: string): DocumentReference<DocumentData> {
+    if (!this.state.isCollectionGroup) {
+      if (id.includes("/")) {
+        throw new Error(`Document ID must not contain "/": "${id}"`);
+      }
+      return this.firestore.collection(this.state.collectionPath!).doc(id);
+    }
 
-          return false;
-        });
+    const ref = this.firestore.doc(id);
+    if (ref.parent.id !== this.state.collectionPath) {
+      throw new Error(
+        `Document path "${id}" is not in collection group "${this.state.collectionPath}"`
+      );
+    }
+    return ref;
+  }
 
-        for (const doc of snapshot.docs) {
-          bulkWriter.delete(doc.ref);
-        }
+  /**
+   * Run queued writes with a BulkWriter, or with one WriteBatch in atomic mode
+   * @returns Documents whose precondition failed (BulkWriter only)
+   * @private
+   */
+  private async runWrites(
+    state: WriteState,
+    options: {
+      onProgress?: (progress: ProgressInfo) => void;
+      atomic?: boolean;
+      precondition?: "unchanged";
+      retry?: RetryOptions;
+    },
+    logCollector: LogCollector | null,
+    queueWrites: (writer: DocumentWriter) => void
+  ): Promise<DocumentReference<DocumentData>[]> {
+    if (options.atomic) {
+      await this.runWriteBatch(state, options, logCollector, queueWrites);
+      return [];
+    }
+    return this.runBulkWriter(state, options, logCollector, queueWrites);
+  }
 
-        await bulkWriter.close();
+  /**
+   * Refuse atomic mode when the writes do not fit in one WriteBatch
+   * @private
+   */
+  private validateAtomicCount(count: number): void {
+    const error = this.atomicCountError(count);
+    if (error) {
+      throw new Error(`${error}. Narrow the query or run without atomic.`);
+    }
+  }
 
-        // Update cursor for next batch
-        lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  /**
+   * Describe why a number of writes does not fit in one WriteBatch
+   * @returns Reason, or undefined if the writes fit
+   * @private
+   */
+  private atomicCountError(count: number): string | undefined {
+    return count > MAX_ATOMIC_WRITES
+      ? `Atomic mode supports at most ${MAX_ATOMIC_WRITES} documents, but ${count} would be written`
+      : undefined;
+  }
+
+  /**
+   * Commit queued writes in a single WriteBatch: all are applied or none are
+   * If any document already failed (e.g., its transform threw), nothing is committed.
+   * A commit that fails with a retryable error is attempted again with a new batch
+   * @private
+   */
+  private async runWriteBatch(
+    state: WriteState,
+    options: {
+      onProgress?: (progress: ProgressInfo) => void;
+      retry?: RetryOptions;
+    },
+    logCollector: LogCollector | null,
+    queueWrites: (writer: DocumentWriter) => void
+  ): Promise<void> {
+    const policy = resolveRetryPolicy(options.retry);
+    const refs: DocumentReference<DocumentData>[] = [];
+    const writes: QueuedWrite[] = [];
+    const failuresBefore = state.failureCount;
+    let idempotent = true;
+
+    // Track the written documents so every one can be reported after commit
+    queueWrites(
+      this.recordingWriter((ref, write, writeIdempotent) => {
+        refs.push(ref);
+        writes.push(write);
+        if (!writeIdempotent) {
+          idempotent = false;
+        }
+      })
+    );
 
-        // If we got fewer docs than batchSize, we're done
-        if (snapshot.docs.length < options.batchSize) {
+    let failureReason: string | undefined;
+    let attempt = 1;
+
+    if (state.failureCount > failuresBefore) {
+      failureReason = `${state.failureCount - failuresBefore} document(s) failed before commit`;
+    } else if (refs.length > MAX_ATOMIC_WRITES) {
+      // Descendants of a recursive delete are only known after listing them,
+      // so the matches alone may have passed the check made before reading
+      failureReason = this.atomicCountError(refs.length);
+    } else if (state.abandon && state.signal?.aborted) {
+      // Nothing was sent yet, so the whole batch is dropped
+      this.recordAbort(state, logCollector);
+      return;
+    } else if (refs.length > 0) {
+      for (; ; attempt++) {
+        const batch = this.firestore.batch();
+
+        try {
+          // Invalid data throws here, before anything is committed
+          writes.forEach((write) => write(batch));
+
+          await state.throttle?.pace(refs.length);
+          await batch.commit();
           break;
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          const retry = shouldRetryWrite(
+            policy,
+            { path: "", code: getErrorCode(error), message, attempt },
+            idempotent
+          );
+
+          if (!retry) {
+            failureReason = message;
+            break;
+          }
+          await sleep(retryDelay(policy, attempt));
         }
       }
-    } else {
-      // Original behavior: load all documents at once
-      const query = this.buildQuery();
-      const snapshot = await query.get();
-
-      totalCount = snapshot.size;
-
-      if (totalCount === 0) {
-        const result: DeleteResult & { logFilePath?: string } = {
-          successCount: 0,
-          failureCount: 0,
-          totalCount: 0,
-          deletedIds: [],
-        };
+    }
 
-        if (logCollector && options.log) {
-          result.logFilePath = logCollector.finalize(options.log);
+    if (failureReason === undefined) {
+      for (const ref of refs) {
+        if (attempt > 1) {
+          state.retriedCount++;
         }
-
-        return result;
+        this.recordSuccess(state, options, logCollector, this.docKey(ref));
       }
+      return;
+    }
 
-      const bulkWriter = this.firestore.bulkWriter();
-
-      let processedCount = 0;
+    state.failureReason = `Atomic batch was not applied, no documents were written: ${failureReason}`;
+    for (const ref of refs) {
+      this.recordFailure(
+        state,
+        options,
+        logCollector,
+        this.docKey(ref),
+        state.failureReason
+      );
+    }
+  }
 
-      // Map to track document IDs for logging
-      const docIdMap = new Map<string, string>();
-      for (const doc of snapshot.docs) {
-        docIdMap.set(doc.ref.path, doc.id);
-      }
+  /**
+   * Run a BulkWriter and record each write result
+   * Writes that failed with a retryable error are queued again on a new
+   * BulkWriter after the backoff delay, until they succeed or run out of attempts
+   * @private
+   */
+  private async runBulkWriter(
+    state: WriteState,
+    options: {
+      onProgress?: (progress: ProgressInfo) => void;
+      precondition?: "unchanged";
+      retry?: RetryOptions;
+    },
+    logCollector: LogCollector | null,
+    queueWrites: (writer: DocumentWriter) => void
+  ): Promise<DocumentReference<DocumentData>[]> {
+    const policy = resolveRetryPolicy(options.retry);
+    const conflicts: DocumentReference<DocumentData>[] = [];
+    let pending = queueWrites;
+
+    for (let attempt = 1; ; attempt++) {
+      // Use BulkWriter for efficient batch operations (no 500 limit)
+      const bulkWriter = this.firestore.bulkWriter(
+        state.throttle?.bulkWriterOptions()
+      );
+      const writes = new Map<string, QueuedWrite>();
+      const nonIdempotent = new Set<string>();
+      const queued: [DocumentReference<DocumentData>, QueuedWrite][] = [];
+      const retries: QueuedWrite[] = [];
 
       bulkWriter.onWriteResult((ref) => {
-        successCount++;
-        processedCount++;
-
-        const docId = docIdMap.get(ref.path) || ref.id;
-        deletedIds.push(docId);
-        logCollector?.addEntry(docId, "success");
-
-        if (options.onProgress) {
-          const progress = calculateProgress(processedCount, totalCount);
-          options.onProgress(progress);
+        if (attempt > 1) {
+          state.retriedCount++;
         }
+        this.recordSuccess(state, options, logCollector, this.docKey(ref));
       });
 
       bulkWriter.onWriteError((error) => {
-        failureCount++;
-        processedCount++;
-
-        const docId = error.documentRef?.id || "unknown";
-        failedDocIds.push(docId);
-        logCollector?.addEntry(docId, "failure", error.message);
+        // Documents changed since they were read are handled by the caller
+        if (
+          options.precondition &&
+          error.code === FAILED_PRECONDITION_CODE &&
+          error.documentRef
+        ) {
+          conflicts.push(error.documentRef);
+          return false;
+        }
 
-        if (options.onProgress) {
-          const progress = calculateProgress(processedCount, totalCount);
-          options.onProgress(progress);
+        const write = error.documentRef
+          ? writes.get(error.documentRef.path)
+          : undefined;
+        if (
+          write &&
+          shouldRetryWrite(
+            policy,
+            {
+              path: error.documentRef.path,
+              code: error.code,
+              message: error.message,
+              attempt,
+            },
+            !nonIdempotent.has(error.documentRef.path)
+          )
+        ) {
+          retries.push(write);
+          return false;
         }
 
+        // Extract document ID from error if available
+        const docId = error.documentRef
+          ? this.docKey(error.documentRef)
+          : "unknown";
+        this.recordFailure(state, options, logCollector, docId, error.message);
+
+        // Return false so BulkWriter does not retry on its own
         return false;
       });
 
-      for (const doc of snapshot.docs) {
-        bulkWriter.delete(doc.ref);
+      pending(
+        this.recordingWriter((ref, write, idempotent) => {
+          writes.set(ref.path, write);
+          if (!idempotent) {
+            nonIdempotent.add(ref.path);
+          }
+          queued.push([ref, write]);
+        })
+      );
+
+      const unsent = await this.sendWrites(
+        bulkWriter,
+        queued,
+        state.throttle,
+        ([ref, write]) => {
+          // Invalid data is rejected before it is queued and fails only its own document
+          try {
+            return write(bulkWriter);
+          } catch (error) {
+            const message =
+              error instanceof Error ? error.message : String(error);
+            this.recordFailure(
+              state,
+              options,
+              logCollector,
+              this.docKey(ref),
+              message
+            );
+            return undefined;
+          }
+        },
+        state.abandon ? () => state.signal?.aborted === true : null
+      );
+      await bulkWriter.close();
+
+      if (unsent > 0) {
+        this.recordAbort(state, logCollector);
       }
 
-      await bulkWriter.close();
+      if (retries.length === 0) {
+        return conflicts;
+      }
+
+      await sleep(retryDelay(policy, attempt));
+      pending = (writer) => retries.forEach((write) => write(writer));
     }
+  }
 
-    const result: DeleteResult & { logFilePath?: string } = {
-      successCount,
-      failureCount,
-      totalCount,
-      deletedIds,
-      failedDocIds: failedDocIds.length > 0 ? failedDocIds : undefined,
-    };
+  /**
+   * Hand writes to a BulkWriter one by one
+   * With a throttle, each write waits for a free in-flight slot and the rate limit,
+   * and gives its slot back once BulkWriter has finished it
+   * @param send - Queues one write and returns its BulkWriter promise
+   * @param stop - Checked before each write; once it returns true the rest is not sent
+   * @returns Number of writes that were not sent
+   * @private
+   */
+  private async sendWrites<T>(
+    bulkWriter: BulkWriter,
+    items: T[],
+    throttle: Throttle | null,
+    send: (item: T) => unknown,
+    stop: (() => boolean) | null = null
+  ): Promise<number> {
+    for (const [i, item] of items.entries()) {
+      if (stop?.()) {
+        return items.length - i;
+      }
 
-    // Write log file if enabled
-    if (logCollector && options.log) {
-      result.logFilePath = logCollector.finalize(options.log);
+      if (!throttle) {
+        send(item);
+
+        // Let full batches go out and an abort be noticed between them
+        if (stop && (i + 1) % BULK_WRITER_BATCH_SIZE === 0) {
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+        continue;
+      }
+
+      // Writes waiting in an unsent batch would never free their slots
+      await throttle.acquire(() => void bulkWriter.flush());
+      Promise.resolve(send(item)).then(
+        () => throttle.release(),
+        () => throttle.release()
+      );
     }
 
-    return result;
+    return 0;
   }
 
   /**
-   * Validate that collection is set
+   * Record that the signal stopped the operation
    * @private
    */
-  private validateSetup(): void {
-    if (!this.collectionPath) {
-      throw new Error("Collection path is required. Call .collection() first.");
-    }
+  private recordAbort(
+    state: WriteState,
+    logCollector: LogCollector | null
+  ): void {
+    state.aborted = true;
+    logCollector?.markAborted(state.lastCursor);
   }
 
   /**
-   * Build Firestore query with all conditions
+   * Record a document that was written
+   * @private
+   */
+  private recordSuccess(
+    state: WriteState,
+    options: { onProgress?: (progress: ProgressInfo) => void },
+    logCollector: LogCollector | null,
+    docId: string
+  ): void {
+    state.successCount++;
+    state.processedCount++;
+    state.succeededIds.push(docId);
+    logCollector?.addEntry(docId, "success");
+
+    this.reportProgress(state, options);
+  }
+
+  /**
+   * Record a document that was not written because it changed since it was read
    * @private
    */
-  private buildQuery(): Query<DocumentData> {
-    let query: Query<DocumentData> = this.firestore.collection(
-      this.collectionPath!
+  private recordConflict(
+    state: WriteState,
+    options: { onProgress?: (progress: ProgressInfo) => void },
+    logCollector: LogCollector | null,
+    docId: string
+  ): void {
+    state.processedCount++;
+    state.conflictedDocIds.push(docId);
+    logCollector?.addEntry(
+      docId,
+      "conflict",
+      "Document changed since it was read"
     );
 
-    for (const condition of this.conditions) {
-      query = query.where(condition.field, condition.operator, condition.value);
+    this.reportProgress(state, options);
+  }
+
+  /**
+   * Refuse invalid signal and onAbort options before anything is read
+   * @private
+   */
+  private validateAbort(options: {
+    signal?: AbortSignal;
+    onAbort?: AbortPolicy;
+  }): void {
+    if (
+      options.signal !== undefined &&
+      typeof options.signal?.aborted !== "boolean"
+    ) {
+      throw new Error("signal must be an AbortSignal");
+    }
+    if (
+      options.onAbort !== undefined &&
+      !["flush", "abandon"].includes(options.onAbort)
+    ) {
+      throw new Error(`Invalid onAbort option: "${options.onAbort}"`);
     }
+  }
 
-    for (const orderBy of this.orderByConditions) {
-      query = query.orderBy(orderBy.field, orderBy.direction);
+  /**
+   * Refuse invalid precondition options before anything is read
+   * @private
+   */
+  private validatePrecondition(options: UpdateOptions): void {
+    if (
+      options.precondition !== undefined &&
+      options.precondition !== "unchanged"
+    ) {
+      throw new Error(`Invalid precondition option: "${options.precondition}"`);
+    }
+    if (
+      options.conflictRetries !== undefined &&
+      !(
+        Number.isInteger(options.conflictRetries) &&
+        options.conflictRetries >= 0
+      )
+    ) {
+      throw new Error("conflictRetries must be a non-negative integer");
+    }
+  }
+
+  /**
+   * Record a document that was skipped
+   * Skipped documents are removed from the total instead of counted as processed
+   * @private
+   */
+  private recordSkipped(
+    state: WriteState,
+    options: { onProgress?: (progress: ProgressInfo) => void },
+    logCollector: LogCollector | null,
+    docId: string
+  ): void {
+    state.skippedCount++;
+    state.totalCount--;
+    logCollector?.addEntry(docId, "skipped");
+
+    this.reportProgress(state, options);
+  }
+
+  /**
+   * Record a document that could not be written
+   * @private
+   */
+  private recordFailure(
+    state: WriteState,
+    options: { onProgress?: (progress: ProgressInfo) => void },
+    logCollector: LogCollector | null,
+    docId: string,
+    message: string
+  ): void {
+    state.failureCount++;
+    state.processedCount++;
+    state.failedDocIds.push(docId);
+    logCollector?.addEntry(docId, "failure", message);
+
+    this.reportProgress(state, options);
+  }
+
+  /**
+   * Call the progress callback with the current counters
+   * @private
+   */
+  private reportProgress(
+    state: WriteState,
+    options: { onProgress?: (progress: ProgressInfo) => void }
+  ): void {
+    if (options.onProgress) {
+      const progress = calculateProgress(
+        state.processedCount,
+        state.totalCount
+      );
+      options.onProgress(progress);
     }
+  }
 
-    if (this.limitCount !== undefined && this.limitCount > 0) {
-      query = query.limit(this.limitCount);
+  /**
+   * Run a transform from updateWith(), upsertWith() or copyTo() on one document
+   * Skipped documents are removed from the total; transform errors and
+   * invalid return values are recorded as failures of that document
+   * @returns Data to write, or null if nothing should be written
+   * @private
+   */
+  private applyTransform(
+    transform: DocumentTransform,
+    doc: QueryDocumentSnapshot<DocumentData>,
+    state: WriteState,
+    options: { onProgress?: (progress: ProgressInfo) => void },
+    logCollector: LogCollector | null
+  ): Record<string, any> | null {
+    const docId = this.docKey(doc.ref);
+    let data: Record<string, any> | null;
+
+    try {
+      data = transform(doc.data(), doc.ref);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.recordFailure(
+        state,
+        options,
+        logCollector,
+        docId,
+        `Transform failed: ${message}`
+      );
+      return null;
     }
 
-    return query;
+    if (data === null) {
+      this.recordSkipped(state, options, logCollector, docId);
+      return null;
+    }
+
+    if (!isValidUpdateData(data)) {
+      this.recordFailure(
+        state,
+        options,
+        logCollector,
+        docId,
+        "Transform must return a non-empty object or null"
+      );
+      return null;
+    }
+
+    return data;
+  }
+
+  /**
+   * Build a before/after preview of one document
+   * @private
+   */
+  private toSnapshot(
+    doc: QueryDocumentSnapshot<DocumentData>,
+    updateData: Record<string, any>
+  ): DocumentSnapshot {
+    const before = doc.data();
+
+    return {
+      id: this.docKey(doc.ref),
+      before,
+      after: mergeUpdateData(before, updateData),
+    };
+  }
+
+  /**
+   * Validate field paths passed to getFields() or streamFields()
+   * @private
+   */
+  private validateFieldPaths(fieldPaths: string | string[]): string[] {
+    const fields = Array.isArray(fieldPaths) ? fieldPaths : [fieldPaths];
+
+    if (fields.length === 0) {
+      throw new Error("Field paths array must be non-empty");
+    }
+    for (const field of fields) {
+      if (typeof field !== "string" || field.length === 0) {
+        throw new Error("Each field path must be a non-empty string");
+      }
+    }
+
+    return fields;
+  }
+
+  /**
+   * Extract requested field values from a document
+   * Missing fields are reported separately from fields explicitly set to null
+   * @private
+   */
+  private toFieldResult(
+    doc: QueryDocumentSnapshot<DocumentData>,
+    fieldPaths: string | string[]
+  ): FieldValueResult | FieldValuesResult {
+    const data = doc.data();
+    const id = this.docKey(doc.ref);
+
+    if (!Array.isArray(fieldPaths)) {
+      const value = this.getNestedValue(data, fieldPaths);
+      return { id, value, exists: value !== undefined };
+    }
+
+    const values: Record<string, any> = {};
+    const missingFields: string[] = [];
+
+    for (const field of fieldPaths) {
+      const value = this.getNestedValue(data, field);
+      if (value === undefined) {
+        missingFields.push(field);
+      } else {
+        values[field] = value;
+      }
+    }
+
+    return { id, values, missingFields };
   }
 
   /**
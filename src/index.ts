@@ -5,33 +5,96 @@
  * @packageDocumentation
  */
 
-// Export main class
-export { BatchUpdater } from "./core/batch-updater";
+// Export main class and the field holding soft delete metadata
+export { BatchUpdater, SOFT_DELETE_FIELD } from "./core/batch-updater";
 
 // Re-export FieldValue from firebase-admin for convenience
 // Users can use FieldValue.increment(), FieldValue.arrayUnion(), etc.
 export { FieldValue } from "firebase-admin/firestore";
 
+// Export the limiter for the throttle option (its limits can be changed while an operation runs)
+export { Throttle } from "./utils";
+
+// Export condition builders for OR and nested AND/OR filters
+export { or, and } from "./utils";
+
+// Export field operation transforms (for preview() and updateWith())
+export {
+  renameFieldTransform,
+  moveFieldTransform,
+  removeFieldsTransform,
+} from "./utils";
+
 // Export types
 export type {
   ProgressInfo,
+  RetryOptions,
+  RetryErrorInfo,
+  WriteErrorCode,
+  ThrottleOptions,
+  BatchUpdaterOptions,
+  AbortPolicy,
+  PageCursor,
+  CheckpointOptions,
+  CheckpointRef,
+  ResumeOptions,
   UpdateOptions,
   UpdateResult,
   DocumentSnapshot,
   PreviewResult,
   WhereCondition,
+  CompositeCondition,
+  FilterCondition,
+  DocumentPredicate,
+  DocumentTransform,
   OrderByCondition,
   FieldValueResult,
+  FieldValuesResult,
+  StreamFieldsOptions,
+  AggregateOperation,
+  AggregateSpec,
+  AggregateResult,
   CreateDocumentInput,
+  CreateConflictMode,
   CreateOptions,
   CreateResult,
   UpsertOptions,
   UpsertResult,
   DeleteOptions,
   DeleteResult,
+  CopyConflictMode,
+  CopyOptions,
+  CopyResult,
+  MoveOptions,
+  MoveResult,
+  SoftDeleteOptions,
+  SoftDeleteMetadata,
+  SoftDeleteResult,
+  RestoreOptions,
+  RestoreResult,
+  RecordFormat,
+  ImportFieldType,
+  ImportOptions,
+  ImportResult,
+  ExportOptions,
+  ExportResult,
+  BackupOptions,
+  BackupRef,
+  RollbackOptions,
+  RollbackResult,
   LogOptions,
+  LogCollectorOptions,
   LogEntry,
+  OperationType,
   OperationLog,
+  SerializedValue,
+  SerializedMap,
+  SerializedTypedValue,
+  SerializedQuery,
+  OperationDefinition,
+  SerializedOperationOptions,
+  SerializedOperation,
+  OperationResult,
 } from "./types";
 
 // Export utility functions (optional, for advanced users)
@@ -44,4 +107,6 @@ export {
   createLogCollector,
   formatOperationLog,
   writeOperationLog,
+  encodeValue,
+  decodeValue,
 } from "./utils";
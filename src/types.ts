@@ -2,17 +2,146 @@
  * Firestore Batch Updater Type Definitions
  */
 
-import type { WhereFilterOp } from "firebase-admin/firestore";
+import type {
+  Firestore,
+  WhereFilterOp,
+  DocumentData,
+  DocumentReference,
+  Timestamp,
+} from "firebase-admin/firestore";
+import type { Throttle } from "./utils/throttle";
 
 /**
  * Progress information during batch operations
  */
 export interface ProgressInfo {
-  current: number; // Number of documents processed so far
-  total: number; // Total number of documents to process
+  current: number; // Number of documents processed so far (bytes read for import())
+  total: number; // Total number of documents to process (file size in bytes for import())
   percentage: number; // Progress percentage (0-100)
 }
 
+/**
+ * gRPC status of a failed write, as used by retry.retryableCodes
+ */
+export type WriteErrorCode =
+  | "CANCELLED"
+  | "UNKNOWN"
+  | "INVALID_ARGUMENT"
+  | "DEADLINE_EXCEEDED"
+  | "NOT_FOUND"
+  | "ALREADY_EXISTS"
+  | "PERMISSION_DENIED"
+  | "RESOURCE_EXHAUSTED"
+  | "FAILED_PRECONDITION"
+  | "ABORTED"
+  | "OUT_OF_RANGE"
+  | "UNIMPLEMENTED"
+  | "INTERNAL"
+  | "UNAVAILABLE"
+  | "DATA_LOSS"
+  | "UNAUTHENTICATED";
+
+/**
+ * Failed write passed to retry.shouldRetry
+ */
+export interface RetryErrorInfo {
+  path: string; // Full document path ("" for a failed atomic batch)
+  code?: number; // gRPC status code
+  message: string;
+  attempt: number; // Attempts made so far (1 = first try)
+  retryable: boolean; // Whether the code is in retryableCodes (and, by default, safe to retry for this write)
+}
+
+/**
+ * Retry policy for transient write errors
+ * Failed writes are retried together on a new BulkWriter (or WriteBatch in atomic mode) after a delay
+ */
+export interface RetryOptions {
+  /**
+   * Attempts per write, including the first one (default: 5)
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry in milliseconds (default: 500)
+   */
+  initialDelayMs?: number;
+  /**
+   * Upper bound of the delay in milliseconds (default: 30000)
+   */
+  maxDelayMs?: number;
+  /**
+   * Factor the delay grows by after each attempt (default: 2)
+   */
+  backoffFactor?: number;
+  /**
+   * Random variation of each delay as a fraction from 0 to 1 (default: 0.2, i.e. ±20%)
+   */
+  jitter?: number;
+  /**
+   * Error codes that are retried
+   * (default: ["ABORTED", "UNAVAILABLE", "RESOURCE_EXHAUSTED", "DEADLINE_EXCEEDED", "INTERNAL"])
+   * The write may already have been applied after DEADLINE_EXCEEDED or INTERNAL, so by default these
+   * are not retried for create() or FieldValue.increment() writes; list them explicitly to retry every write
+   */
+  retryableCodes?: WriteErrorCode[];
+  /**
+   * Decide whether a failed write is retried, instead of the retryableCodes check
+   * (error.retryable holds its result). Not called once maxAttempts is reached
+   */
+  shouldRetry?: (error: RetryErrorInfo) => boolean;
+}
+
+/**
+ * Limits on how fast an operation writes and reads
+ * maxOpsPerSecond and initialOpsPerSecond are passed to BulkWriter's throttling, which starts
+ * at 500 ops/sec and grows by 50% every 5 minutes; the library limiter also enforces
+ * maxOpsPerSecond and maxInFlight itself and paces the pages read with batchSize
+ */
+export interface ThrottleOptions {
+  /**
+   * Upper limit of writes and paginated document reads per second (default: no limit)
+   */
+  maxOpsPerSecond?: number;
+  /**
+   * Rate BulkWriter starts its ramp-up at (default: 500, or maxOpsPerSecond if lower)
+   */
+  initialOpsPerSecond?: number;
+  /**
+   * Upper limit of writes sent but not yet acknowledged (default: no limit)
+   */
+  maxInFlight?: number;
+}
+
+/**
+ * Options for creating a BatchUpdater
+ */
+export interface BatchUpdaterOptions {
+  /**
+   * Default throttle of every operation run on this instance and the queries built from it
+   * An operation's own throttle option replaces it
+   */
+  throttle?: ThrottleOptions | Throttle;
+}
+
+/**
+ * What happens to writes that are not sent yet when options.signal aborts
+ * - "flush": finish the writes of the current page, then stop (default)
+ * - "abandon": drop the writes of the current page that were not handed to BulkWriter yet
+ *   (writes already handed over still complete)
+ */
+export type AbortPolicy = "flush" | "abandon";
+
+/**
+ * Position after the last page an operation finished (batchSize pagination)
+ */
+export interface PageCursor {
+  queryIndex: number; // Sub-query of the page (in/array-contains-any lists over 30 values run as several queries)
+  lastDoc?: string; // Full path of the last document read (queries only)
+  orderValues?: SerializedValue[]; // Encoded values of lastDoc for orderBy() fields, then fields of inequality conditions
+  docOffset?: number; // Requested IDs read so far (docs() mode only)
+  readCount: number; // Matching documents read so far (counted against limit())
+}
+
 /**
  * Options for update operations
  */
@@ -32,6 +161,48 @@ export interface UpdateOptions {
    * When not set, all documents are loaded at once
    */
   batchSize?: number;
+  /**
+   * Apply all writes in a single WriteBatch: either every document is written or none is (default: false)
+   * Limited to 500 documents; the operation refuses to start if more would be written
+   */
+  atomic?: boolean;
+  /**
+   * Only write documents that have not changed since they were read (default: none)
+   * "unchanged" passes the read time as a lastUpdateTime precondition; conflicts are reported in conflictedDocIds
+   */
+  precondition?: "unchanged";
+  /**
+   * Times to re-read conflicting documents and retry them while they still match the query (default: 0)
+   */
+  conflictRetries?: number;
+  /**
+   * Save the full state of each document before it is written, for rollback() (default: none)
+   * { path } appends to a new NDJSON file; { collection } writes under a new document of that collection
+   */
+  backup?: BackupOptions;
+  /**
+   * Save progress after each page so an interrupted run can be continued with resume() (default: none)
+   * Requires batchSize; { path } appends to a new NDJSON file, { document } creates that Firestore document
+   */
+  checkpoint?: CheckpointOptions;
+  /**
+   * Retry writes that failed with a transient error (default: no retries)
+   */
+  retry?: RetryOptions;
+  /**
+   * Limit writes per second and in flight (default: BulkWriter's ramp-up only)
+   * Pass a Throttle to change the limits while the operation runs
+   */
+  throttle?: ThrottleOptions | Throttle;
+  /**
+   * Stop the operation when this signal aborts; the result then has aborted: true
+   * No further pages are fetched, and the log file is still written
+   */
+  signal?: AbortSignal;
+  /**
+   * Whether writes of the current page are finished or dropped on abort (default: "flush")
+   */
+  onAbort?: AbortPolicy;
 }
 
 /**
@@ -41,7 +212,16 @@ export interface UpdateResult {
   successCount: number; // Number of successfully updated documents
   failureCount: number; // Number of failed documents
   totalCount: number; // Total number of processed documents
+  retriedCount?: number; // Writes that succeeded only after retrying (retry option only)
+  skippedCount?: number; // Documents skipped by the transform (updateWith() only)
   failedDocIds?: string[]; // Array of failed document IDs (if any)
+  missingDocIds?: string[]; // Requested IDs that do not exist (docs() mode only)
+  conflictedDocIds?: string[]; // Documents changed since they were read (precondition only)
+  failureReason?: string; // Why the atomic batch was not applied (atomic mode only)
+  backupRef?: BackupRef; // Where before-images were saved (backup only)
+  checkpointRef?: CheckpointRef; // Where progress was saved (checkpoint only)
+  aborted?: boolean; // Whether options.signal stopped the operation before it finished
+  lastCursor?: PageCursor; // Position after the last finished page (aborted paginated runs only)
 }
 
 /**
@@ -60,6 +240,8 @@ export interface PreviewResult {
   affectedCount: number; // Number of documents that will be affected
   samples: DocumentSnapshot[]; // Sample documents (up to 10)
   affectedFields: string[]; // List of fields that will be changed
+  missingDocIds?: string[]; // Requested IDs that do not exist (docs() mode only)
+  skippedCount?: number; // Documents the transform would skip (transform previews only)
 }
 
 /**
@@ -71,6 +253,38 @@ export interface WhereCondition {
   value: any; // Value to compare
 }
 
+/**
+ * Group of conditions combined with AND or OR
+ * Groups can be nested to build condition trees
+ */
+export interface CompositeCondition {
+  type: "and" | "or"; // How the conditions are combined
+  conditions: FilterCondition[]; // Field conditions or nested groups
+}
+
+/**
+ * Field condition or AND/OR group of conditions
+ */
+export type FilterCondition = WhereCondition | CompositeCondition;
+
+/**
+ * Client-side filter applied to documents after the Firestore query
+ * Return true to keep the document
+ */
+export type DocumentPredicate = (
+  data: DocumentData,
+  ref: DocumentReference
+) => boolean;
+
+/**
+ * Computes update data from a document's current data for updateWith() / upsertWith()
+ * Return null to skip the document
+ */
+export type DocumentTransform = (
+  data: DocumentData,
+  ref: DocumentReference
+) => Record<string, any> | null;
+
 /**
  * OrderBy clause condition
  */
@@ -84,9 +298,49 @@ export interface OrderByCondition {
  */
 export interface FieldValueResult {
   id: string; // Document ID
-  value: any; // Field value
+  value: any; // Field value (undefined if the field does not exist)
+  exists: boolean; // Whether the field exists (true for fields explicitly set to null)
+}
+
+/**
+ * Field values result from getFields() with multiple field paths
+ */
+export interface FieldValuesResult {
+  id: string; // Document ID
+  values: Record<string, any>; // Values keyed by field path (only fields that exist)
+  missingFields: string[]; // Requested field paths that do not exist
 }
 
+/**
+ * Options for streamFields()
+ */
+export interface StreamFieldsOptions {
+  /**
+   * Number of documents fetched per page (default: 500)
+   */
+  batchSize?: number;
+}
+
+/**
+ * Aggregation to compute over matching documents
+ */
+export type AggregateOperation =
+  | { type: "count" } // Number of documents
+  | { type: "sum"; field: string } // Sum of numeric values (0 if none)
+  | { type: "average"; field: string }; // Average of numeric values (null if none)
+
+/**
+ * Named aggregations for aggregate()
+ */
+export type AggregateSpec = Record<string, AggregateOperation>;
+
+/**
+ * Result of aggregate(), keyed by the names in the spec
+ */
+export type AggregateResult<T extends AggregateSpec> = {
+  [K in keyof T]: T[K] extends { type: "average" } ? number | null : number;
+};
+
 /**
  * Input for creating a single document
  */
@@ -95,6 +349,15 @@ export interface CreateDocumentInput {
   data: Record<string, any>; // Document data
 }
 
+/**
+ * How create() handles documents whose ID already exists
+ * - "fail": report the document as a failure
+ * - "skip": keep the existing document
+ * - "overwrite": replace the existing document
+ * - "merge": merge into the existing document (set with merge)
+ */
+export type CreateConflictMode = "fail" | "skip" | "overwrite" | "merge";
+
 /**
  * Options for create operations
  */
@@ -108,17 +371,49 @@ export interface CreateOptions {
    * Log file generation options
    */
   log?: LogOptions;
+  /**
+   * Apply all writes in a single WriteBatch: either every document is written or none is (default: false)
+   * Limited to 500 documents; the operation refuses to start if more would be written
+   */
+  atomic?: boolean;
+  /**
+   * What to do when a document with the same ID already exists (default: "fail")
+   */
+  onConflict?: CreateConflictMode;
+  /**
+   * Retry writes that failed with a transient error (default: no retries)
+   */
+  retry?: RetryOptions;
+  /**
+   * Limit writes per second and in flight (default: BulkWriter's ramp-up only)
+   * Pass a Throttle to change the limits while the operation runs
+   */
+  throttle?: ThrottleOptions | Throttle;
+  /**
+   * Stop the operation when this signal aborts; the result then has aborted: true
+   * No further chunks of 500 documents are written, and the log file is still written
+   */
+  signal?: AbortSignal;
+  /**
+   * Whether writes of the current page are finished or dropped on abort (default: "flush")
+   */
+  onAbort?: AbortPolicy;
 }
 
 /**
  * Result of batch create operation
  */
 export interface CreateResult {
-  successCount: number; // Number of successfully created documents
+  successCount: number; // Number of successfully written documents (including overwritten)
   failureCount: number; // Number of failed documents
-  totalCount: number; // Total number of processed documents
+  totalCount: number; // Total number of processed documents (excluding skipped)
+  retriedCount?: number; // Writes that succeeded only after retrying (retry option only)
   createdIds: string[]; // Array of created document IDs
+  skippedIds?: string[]; // Existing documents left untouched (onConflict "skip")
+  overwrittenIds?: string[]; // Existing documents replaced or merged into (onConflict "overwrite" / "merge")
   failedDocIds?: string[]; // Array of failed document IDs (if any)
+  failureReason?: string; // Why the atomic batch was not applied (atomic mode only)
+  aborted?: boolean; // Whether options.signal stopped the operation before it finished
 }
 
 /**
@@ -140,6 +435,39 @@ export interface UpsertOptions {
    * When not set, all documents are loaded at once
    */
   batchSize?: number;
+  /**
+   * Apply all writes in a single WriteBatch: either every document is written or none is (default: false)
+   * Limited to 500 documents; the operation refuses to start if more would be written
+   */
+  atomic?: boolean;
+  /**
+   * Save the full state of each document before it is written, for rollback() (default: none)
+   * { path } appends to a new NDJSON file; { collection } writes under a new document of that collection
+   */
+  backup?: BackupOptions;
+  /**
+   * Save progress after each page so an interrupted run can be continued with resume() (default: none)
+   * Requires batchSize; { path } appends to a new NDJSON file, { document } creates that Firestore document
+   */
+  checkpoint?: CheckpointOptions;
+  /**
+   * Retry writes that failed with a transient error (default: no retries)
+   */
+  retry?: RetryOptions;
+  /**
+   * Limit writes per second and in flight (default: BulkWriter's ramp-up only)
+   * Pass a Throttle to change the limits while the operation runs
+   */
+  throttle?: ThrottleOptions | Throttle;
+  /**
+   * Stop the operation when this signal aborts; the result then has aborted: true
+   * No further pages (or chunks of 500 listed documents) are written, and the log file is still written
+   */
+  signal?: AbortSignal;
+  /**
+   * Whether writes of the current page are finished or dropped on abort (default: "flush")
+   */
+  onAbort?: AbortPolicy;
 }
 
 /**
@@ -149,7 +477,17 @@ export interface UpsertResult {
   successCount: number; // Number of successfully upserted documents
   failureCount: number; // Number of failed documents
   totalCount: number; // Total number of processed documents
+  retriedCount?: number; // Writes that succeeded only after retrying (retry option only)
+  skippedCount?: number; // Documents skipped by the transform (upsertWith() only)
+  createdCount?: number; // Documents that did not exist before (document list only)
+  updatedCount?: number; // Existing documents merged into (document list only)
   failedDocIds?: string[]; // Array of failed document IDs (if any)
+  missingDocIds?: string[]; // Requested IDs that do not exist (docs() mode only)
+  failureReason?: string; // Why the atomic batch was not applied (atomic mode only)
+  backupRef?: BackupRef; // Where before-images were saved (backup only)
+  checkpointRef?: CheckpointRef; // Where progress was saved (checkpoint only)
+  aborted?: boolean; // Whether options.signal stopped the operation before it finished
+  lastCursor?: PageCursor; // Position after the last finished page (aborted paginated runs only)
 }
 
 /**
@@ -171,16 +509,567 @@ export interface DeleteOptions {
    * When not set, all documents are loaded at once
    */
   batchSize?: number;
+  /**
+   * Also delete every document in the subcollections below each matched document (default: false)
+   * Descendant documents are counted in progress, results and log entries
+   */
+  recursive?: boolean;
+  /**
+   * Number of subcollection levels to delete with recursive (default: all)
+   * 1 deletes direct subcollections only; deeper levels are left in place. Requires recursive
+   */
+  maxDepth?: number;
+  /**
+   * List the document paths that would be deleted without deleting anything (default: false)
+   */
+  dryRun?: boolean;
+  /**
+   * Apply all writes in a single WriteBatch: either every document is written or none is (default: false)
+   * Limited to 500 documents; the operation refuses to start if more would be written
+   */
+  atomic?: boolean;
+  /**
+   * Only write documents that have not changed since they were read (default: none)
+   * "unchanged" passes the read time as a lastUpdateTime precondition; conflicts are reported in conflictedDocIds
+   */
+  precondition?: "unchanged";
+  /**
+   * Times to re-read conflicting documents and retry them while they still match the query (default: 0)
+   */
+  conflictRetries?: number;
+  /**
+   * Save the full state of each document before it is written, for rollback() (default: none)
+   * { path } appends to a new NDJSON file; { collection } writes under a new document of that collection
+   */
+  backup?: BackupOptions;
+  /**
+   * Save progress after each page so an interrupted run can be continued with resume() (default: none)
+   * Requires batchSize; { path } appends to a new NDJSON file, { document } creates that Firestore document
+   */
+  checkpoint?: CheckpointOptions;
+  /**
+   * Retry writes that failed with a transient error (default: no retries)
+   */
+  retry?: RetryOptions;
+  /**
+   * Limit writes per second and in flight (default: BulkWriter's ramp-up only)
+   * Pass a Throttle to change the limits while the operation runs
+   */
+  throttle?: ThrottleOptions | Throttle;
+  /**
+   * Stop the operation when this signal aborts; the result then has aborted: true
+   * No further pages are fetched, and the log file is still written
+   */
+  signal?: AbortSignal;
+  /**
+   * Whether writes of the current page are finished or dropped on abort (default: "flush")
+   */
+  onAbort?: AbortPolicy;
 }
 
 /**
  * Result of batch delete operation
  */
 export interface DeleteResult {
-  successCount: number; // Number of successfully deleted documents
+  successCount: number; // Number of successfully deleted documents (including descendants)
+  failureCount: number; // Number of failed documents
+  totalCount: number; // Total number of processed documents (including descendants)
+  retriedCount?: number; // Writes that succeeded only after retrying (retry option only)
+  deletedIds: string[]; // Array of deleted document IDs (full paths for descendants)
+  failedDocIds?: string[]; // Array of failed document IDs (if any)
+  missingDocIds?: string[]; // Requested IDs that do not exist (docs() mode only)
+  conflictedDocIds?: string[]; // Documents changed since they were read (precondition only)
+  dryRunPaths?: string[]; // Paths that would be deleted (dryRun only)
+  failureReason?: string; // Why the atomic batch was not applied (atomic mode only)
+  backupRef?: BackupRef; // Where before-images were saved (backup only)
+  checkpointRef?: CheckpointRef; // Where progress was saved (checkpoint only)
+  aborted?: boolean; // Whether options.signal stopped the operation before it finished
+  lastCursor?: PageCursor; // Position after the last finished page (aborted paginated runs only)
+}
+
+/**
+ * How copyTo() / moveTo() handle documents that already exist in the target
+ * - "skip": keep the target document and leave the source untouched
+ * - "overwrite": replace the target document
+ * - "merge": merge into the target document (set with merge)
+ */
+export type CopyConflictMode = "skip" | "overwrite" | "merge";
+
+/**
+ * Options for copyTo() and moveTo()
+ */
+export interface CopyOptions {
+  /**
+   * Callback function for progress updates
+   * @param progress - Current progress information
+   */
+  onProgress?: (progress: ProgressInfo) => void;
+  /**
+   * Log file generation options
+   */
+  log?: LogOptions;
+  /**
+   * Batch size for pagination (optional)
+   * When set, documents are processed in batches to prevent memory issues with large collections
+   * When not set, all documents are loaded at once
+   */
+  batchSize?: number;
+  /**
+   * Target Firestore instance (default: the instance of this BatchUpdater)
+   * Document references in copied data are rebound to this instance
+   */
+  firestore?: Firestore;
+  /**
+   * Map a source document ID to the target document ID (default: same ID)
+   */
+  mapId?: (id: string, data: DocumentData) => string;
+  /**
+   * Compute the target data from the source data (return null to skip the document)
+   */
+  transform?: DocumentTransform;
+  /**
+   * What to do when the target document already exists (default: "skip")
+   */
+  onConflict?: CopyConflictMode;
+  /**
+   * Also copy all subcollections of each document (default: false)
+   * mapId and transform only apply to the matched documents, not their subcollections
+   */
+  includeSubcollections?: boolean;
+  /**
+   * Retry writes that failed with a transient error (default: no retries)
+   */
+  retry?: RetryOptions;
+  /**
+   * Limit writes per second and in flight (default: BulkWriter's ramp-up only)
+   * Pass a Throttle to change the limits while the operation runs
+   */
+  throttle?: ThrottleOptions | Throttle;
+}
+
+/**
+ * Options for moveTo()
+ */
+export type MoveOptions = CopyOptions;
+
+/**
+ * Result of copyTo() operation
+ */
+export interface CopyResult {
+  successCount: number; // Number of successfully copied documents
+  failureCount: number; // Number of failed documents
+  totalCount: number; // Total number of processed documents
+  retriedCount?: number; // Writes that succeeded only after retrying (retry option only)
+  skippedCount: number; // Documents skipped by conflicts or the transform
+  copiedIds: string[]; // Array of copied source document IDs
+  failedDocIds?: string[]; // Array of failed document IDs (if any)
+  missingDocIds?: string[]; // Requested IDs that do not exist (docs() mode only)
+}
+
+/**
+ * Result of moveTo() operation
+ */
+export interface MoveResult {
+  successCount: number; // Number of successfully moved documents
   failureCount: number; // Number of failed documents
   totalCount: number; // Total number of processed documents
-  deletedIds: string[]; // Array of deleted document IDs
+  retriedCount?: number; // Writes that succeeded only after retrying (retry option only)
+  skippedCount: number; // Documents skipped by conflicts or the transform (sources are kept)
+  movedIds: string[]; // Array of moved source document IDs
+  failedDocIds?: string[]; // Array of failed document IDs (if any)
+  missingDocIds?: string[]; // Requested IDs that do not exist (docs() mode only)
+}
+
+/**
+ * Options for softDelete()
+ */
+export interface SoftDeleteOptions {
+  /**
+   * Collection the documents are moved into (required)
+   */
+  archiveCollection: string;
+  /**
+   * Why the documents are deleted, stored in the deletion metadata
+   */
+  reason?: string;
+  /**
+   * Who deletes the documents (default: the USER / USERNAME environment variable)
+   */
+  operator?: string;
+  /**
+   * Identifier shared by every document archived in this run (default: random UUID)
+   */
+  runId?: string;
+  /**
+   * Also move every subcollection below each document into the archive (default: false)
+   */
+  includeSubcollections?: boolean;
+  /**
+   * Callback function for progress updates
+   * @param progress - Current progress information
+   */
+  onProgress?: (progress: ProgressInfo) => void;
+  /**
+   * Log file generation options
+   */
+  log?: LogOptions;
+  /**
+   * Batch size for pagination (optional)
+   * When set, documents are processed in batches to prevent memory issues with large collections
+   * When not set, all documents are loaded at once
+   */
+  batchSize?: number;
+  /**
+   * Retry writes that failed with a transient error (default: no retries)
+   */
+  retry?: RetryOptions;
+  /**
+   * Limit writes per second and in flight (default: BulkWriter's ramp-up only)
+   * Pass a Throttle to change the limits while the operation runs
+   */
+  throttle?: ThrottleOptions | Throttle;
+}
+
+/**
+ * Deletion metadata stored in each archived document (under SOFT_DELETE_FIELD)
+ */
+export interface SoftDeleteMetadata {
+  deletedAt: Timestamp; // Server time of the deletion
+  deletedBy: string; // Operator
+  originalPath: string; // Full path the document is restored to
+  runId: string; // Identifier of the softDelete() run
+  reason?: string;
+}
+
+/**
+ * Result of softDelete()
+ */
+export interface SoftDeleteResult {
+  successCount: number; // Number of successfully archived documents
+  failureCount: number; // Number of failed documents (left in place)
+  totalCount: number; // Total number of processed documents
+  retriedCount?: number; // Writes that succeeded only after retrying (retry option only)
+  deletedIds: string[]; // Array of archived source document IDs
+  runId: string; // Identifier stored in the metadata of every archived document
+  failedDocIds?: string[]; // Array of failed document IDs (if any)
+  missingDocIds?: string[]; // Requested IDs that do not exist (docs() mode only)
+}
+
+/**
+ * Options for restore()
+ */
+export interface RestoreOptions {
+  /**
+   * How to handle a document that exists again at the original path (default: "skip")
+   * Skipped documents stay in the archive
+   */
+  onConflict?: CopyConflictMode;
+  /**
+   * Also move subcollections archived with includeSubcollections back (default: false)
+   */
+  includeSubcollections?: boolean;
+  /**
+   * Callback function for progress updates
+   * @param progress - Current progress information
+   */
+  onProgress?: (progress: ProgressInfo) => void;
+  /**
+   * Log file generation options
+   */
+  log?: LogOptions;
+  /**
+   * Batch size for pagination (optional)
+   * When set, documents are processed in batches to prevent memory issues with large collections
+   * When not set, all documents are loaded at once
+   */
+  batchSize?: number;
+  /**
+   * Retry writes that failed with a transient error (default: no retries)
+   */
+  retry?: RetryOptions;
+  /**
+   * Limit writes per second and in flight (default: BulkWriter's ramp-up only)
+   * Pass a Throttle to change the limits while the operation runs
+   */
+  throttle?: ThrottleOptions | Throttle;
+}
+
+/**
+ * Result of restore()
+ */
+export interface RestoreResult {
+  successCount: number; // Number of successfully restored documents
+  failureCount: number; // Number of failed documents (kept in the archive)
+  totalCount: number; // Total number of processed archive documents
+  retriedCount?: number; // Writes that succeeded only after retrying (retry option only)
+  skippedCount: number; // Documents whose original path exists again (onConflict "skip")
+  restoredIds: string[]; // Array of restored archive document IDs
+  failedDocIds?: string[]; // Array of failed document IDs (if any)
+  missingDocIds?: string[]; // Requested IDs that do not exist (docs() mode only)
+}
+
+/**
+ * File format for import() / export()
+ * - "ndjson": one JSON object per line
+ * - "json": a JSON array of objects
+ * - "csv": comma-separated values with a header row
+ */
+export type RecordFormat = "ndjson" | "json" | "csv";
+
+/**
+ * Type a column or field is converted to by import()
+ * - "timestamp": ISO date string or milliseconds
+ * - "geopoint": "latitude,longitude", [latitude, longitude] or { latitude, longitude }
+ * - "reference": document path
+ * - "json": JSON text (tagged values from encodeValue() are decoded)
+ */
+export type ImportFieldType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "timestamp"
+  | "geopoint"
+  | "reference"
+  | "json";
+
+/**
+ * Options for import()
+ */
+export interface ImportOptions {
+  /**
+   * File format (default: inferred from the file extension: .ndjson/.jsonl, .json, .csv)
+   */
+  format?: RecordFormat;
+  /**
+   * How records are written (default: "create")
+   * - "create": create() with onConflict
+   * - "upsert": merge by ID and create missing documents (requires idField)
+   */
+  mode?: "create" | "upsert";
+  /**
+   * What to do when a document with the same ID already exists in "create" mode (default: "fail")
+   */
+  onConflict?: CreateConflictMode;
+  /**
+   * Column or field holding the document ID (default: auto-generated IDs)
+   * The ID column is not written to the document
+   */
+  idField?: string;
+  /**
+   * Field path each column or field is written to, keyed by column name (e.g., { zip: "address.zip" })
+   */
+  columns?: Record<string, string>;
+  /**
+   * Type each column or field is converted to, keyed by column name
+   * CSV values are strings unless a type is given
+   */
+  types?: Record<string, ImportFieldType>;
+  /**
+   * CSV field delimiter (default: ",")
+   */
+  delimiter?: string;
+  /**
+   * Number of records written per batch (default: 500)
+   * Only one batch of records is held in memory at a time
+   */
+  batchSize?: number;
+  /**
+   * File that invalid records are written to as NDJSON (default: "<source>.rejects.ndjson")
+   * Only created when a record is rejected
+   */
+  rejectsPath?: string;
+  /**
+   * Callback function for progress updates, called after each batch
+   * current and total are bytes of the source file, as the number of records is not known until it is read
+   * @param progress - Current progress information
+   */
+  onProgress?: (progress: ProgressInfo) => void;
+  /**
+   * Log file generation options
+   */
+  log?: LogOptions;
+  /**
+   * Retry writes that failed with a transient error (default: no retries)
+   */
+  retry?: RetryOptions;
+  /**
+   * Limit writes per second and in flight (default: BulkWriter's ramp-up only)
+   * Pass a Throttle to change the limits while the operation runs
+   */
+  throttle?: ThrottleOptions | Throttle;
+}
+
+/**
+ * Result of import() operation
+ */
+export interface ImportResult {
+  successCount: number; // Number of successfully written documents
+  failureCount: number; // Number of documents that failed to write
+  totalCount: number; // Total number of written or failed documents (excluding skipped and rejected)
+  retriedCount?: number; // Writes that succeeded only after retrying (retry option only)
+  rejectedCount: number; // Records that could not be parsed or converted
+  createdCount?: number; // Documents that did not exist before ("upsert" mode only)
+  updatedCount?: number; // Existing documents merged into ("upsert" mode only)
+  skippedCount?: number; // Existing documents left untouched (onConflict "skip")
+  overwrittenCount?: number; // Existing documents replaced or merged into (onConflict "overwrite" / "merge")
+  failedDocIds?: string[]; // Array of failed document IDs (if any)
+  rejectsFilePath?: string; // Path of the rejects file (if any record was rejected)
+}
+
+/**
+ * Options for export()
+ */
+export interface ExportOptions {
+  /**
+   * File format (default: inferred from the file extension: .ndjson/.jsonl, .json, .csv)
+   */
+  format?: RecordFormat;
+  /**
+   * Column or field the document ID is written to (default: "__id")
+   */
+  idField?: string;
+  /**
+   * Only export these field paths (fetched with select())
+   */
+  fields?: string[];
+  /**
+   * CSV only: levels of nested maps flattened into dotted columns (default: all)
+   * Deeper maps are written as JSON cells; 0 writes every map as JSON
+   */
+  flattenDepth?: number;
+  /**
+   * CSV only: columns to write, in order (default: every column found, ID first, then sorted)
+   * When omitted, rows are staged in a temporary file until all columns are known
+   */
+  columns?: string[];
+  /**
+   * CSV field delimiter (default: ",")
+   */
+  delimiter?: string;
+  /**
+   * Number of documents fetched per page (default: 500)
+   */
+  batchSize?: number;
+  /**
+   * Callback function for progress updates
+   * @param progress - Current progress information
+   */
+  onProgress?: (progress: ProgressInfo) => void;
+}
+
+/**
+ * Result of export() operation
+ */
+export interface ExportResult {
+  exportedCount: number; // Number of documents written to the file
+  filePath: string; // Path of the written file
+  format: RecordFormat; // Format of the written file
+  columns?: string[]; // CSV header (CSV only)
+}
+
+/**
+ * Where update(), upsert() and delete() save before-images (backup option)
+ * - { path }: NDJSON file, created by the operation (must not exist yet)
+ * - { collection }: a new document of this collection, with one document per
+ *   before-image in its "documents" subcollection
+ */
+export type BackupOptions = { path: string } | { collection: string };
+
+/**
+ * Reference to a saved backup, passed to rollback()
+ */
+export interface BackupRef {
+  type: "file" | "firestore";
+  path: string; // File path, or path of the backup document in Firestore
+}
+
+/**
+ * Options for rollback()
+ */
+export interface RollbackOptions {
+  /**
+   * Callback function for progress updates (total is the number of documents restored so far)
+   * @param progress - Current progress information
+   */
+  onProgress?: (progress: ProgressInfo) => void;
+  /**
+   * Log file generation options
+   */
+  log?: LogOptions;
+  /**
+   * Number of before-images read and written at a time (default: 500)
+   */
+  batchSize?: number;
+  /**
+   * Retry writes that failed with a transient error (default: no retries)
+   */
+  retry?: RetryOptions;
+  /**
+   * Limit writes per second and in flight (default: BulkWriter's ramp-up only)
+   * Pass a Throttle to change the limits while the operation runs
+   */
+  throttle?: ThrottleOptions | Throttle;
+}
+
+/**
+ * Where update(), upsert() and delete() save their progress after each page (checkpoint option)
+ * - { path }: NDJSON file with one line per finished page, created by the operation (must not exist yet)
+ * - { document }: Firestore document created by the operation (must not exist yet), with one
+ *   document per finished page in its "pages" subcollection
+ */
+export type CheckpointOptions = { path: string } | { document: string };
+
+/**
+ * Reference to a saved checkpoint, passed to resume()
+ */
+export interface CheckpointRef {
+  type: "file" | "firestore";
+  path: string; // File path, or path of the checkpoint document in Firestore
+}
+
+/**
+ * Options for resume()
+ * The options stored with the checkpoint (batchSize, log, retry, throttle, precondition,
+ * recursive, ...) are used again; these are merged over them
+ */
+export interface ResumeOptions {
+  /**
+   * Callback function for progress updates, counting the documents of earlier runs as well
+   * @param progress - Current progress information
+   */
+  onProgress?: (progress: ProgressInfo) => void;
+  /**
+   * Retry writes that failed with a transient error (default: the stored retry options)
+   */
+  retry?: RetryOptions;
+  /**
+   * Limit writes per second and in flight (default: the stored throttle options)
+   */
+  throttle?: ThrottleOptions | Throttle;
+  /**
+   * Stop the resumed run when this signal aborts; it can be resumed again later
+   */
+  signal?: AbortSignal;
+  /**
+   * Whether writes of the current page are finished or dropped on abort (default: "flush")
+   */
+  onAbort?: AbortPolicy;
+  /**
+   * Save before-images of the documents written from here on to a new backup (default: none)
+   */
+  backup?: BackupOptions;
+}
+
+/**
+ * Result of rollback()
+ */
+export interface RollbackResult {
+  successCount: number; // Number of successfully restored documents
+  failureCount: number; // Number of failed documents
+  totalCount: number; // Total number of documents in the backup
+  retriedCount?: number; // Writes that succeeded only after retrying (retry option only)
+  restoredIds: string[]; // Documents written back with their saved data
+  removedIds: string[]; // Documents deleted because they did not exist before the operation
   failedDocIds?: string[]; // Array of failed document IDs (if any)
 }
 
@@ -193,30 +1082,176 @@ export interface LogOptions {
   filename?: string; // Custom log filename (default: auto-generated with timestamp)
 }
 
+/**
+ * Additional query details recorded by a log collector
+ */
+export interface LogCollectorOptions {
+  collectionGroup?: boolean; // Whether collection is a collection group ID
+  clientFilterCount?: number; // Number of client-side filter() predicates
+  computedUpdate?: string; // How update data is computed per document (updateWith(), upsertWith(), field operations)
+  target?: string; // Target collection path (copyTo() / moveTo() / softDelete())
+  source?: string; // Source file path (import())
+  backup?: string; // Backup file or document path (backup option, rollback())
+  checkpoint?: string; // Checkpoint file or document path (checkpoint option, resume())
+  startedAt?: string; // When the first run started (resume())
+  entries?: LogEntry[]; // Entries of earlier runs (resume())
+}
+
 /**
  * Log entry for a single document operation
  */
 export interface LogEntry {
   timestamp: string;
-  documentId: string;
-  status: "success" | "failure";
+  documentId: string; // Document ID (full document path for collection groups)
+  status:
+    | "success"
+    | "failure"
+    | "missing"
+    | "skipped"
+    | "conflict"
+    | "overwritten";
   error?: string;
 }
 
+/**
+ * Operation recorded in a log file
+ */
+export type OperationType =
+  | "update"
+  | "create"
+  | "upsert"
+  | "delete"
+  | "copy"
+  | "move"
+  | "import"
+  | "rollback"
+  | "soft-delete"
+  | "restore";
+
 /**
  * Complete log data for an operation
  */
 export interface OperationLog {
-  operation: "update" | "create" | "upsert" | "delete";
+  operation: OperationType;
   collection: string;
+  collectionGroup?: boolean; // Whether collection is a collection group ID
   startedAt: string;
   completedAt: string;
-  conditions?: WhereCondition[];
-  updateData?: Record<string, any>;
+  conditions?: FilterCondition[]; // Conditions with encoded values (see SerializedValue)
+  clientFilterCount?: number; // Number of client-side filter() predicates
+  updateData?: SerializedMap; // Encoded update data
+  computedUpdate?: string; // How update data is computed per document (updateWith(), upsertWith(), field operations)
+  target?: string; // Target collection path (copyTo() / moveTo() / softDelete())
+  source?: string; // Source file path (import())
+  backup?: string; // Backup file or document path (backup option, rollback())
+  checkpoint?: string; // Checkpoint file or document path (checkpoint option, resume())
+  resumedAt?: string; // When the last run was resumed (resume())
+  aborted?: boolean; // Whether the operation was stopped by its signal
+  lastCursor?: PageCursor; // Position after the last finished page (aborted paginated runs only)
   summary: {
     totalCount: number;
     successCount: number;
     failureCount: number;
+    missingCount?: number; // Requested IDs that do not exist (docs() mode only)
+    skippedCount?: number; // Documents skipped by a transform
+    conflictCount?: number; // Documents changed since they were read (precondition only)
+    overwrittenCount?: number; // Existing documents written by create() (included in successCount)
   };
   entries: LogEntry[];
 }
+
+/**
+ * JSON-safe value produced by encodeValue()
+ * Values that plain JSON cannot represent use SerializedTypedValue
+ */
+export type SerializedValue =
+  | null
+  | boolean
+  | number
+  | string
+  | SerializedValue[]
+  | { [key: string]: SerializedValue };
+
+/**
+ * JSON-safe map produced by encodeValue() for document data
+ */
+export type SerializedMap = { [key: string]: SerializedValue };
+
+/**
+ * Tagged encoding for Firestore values that plain JSON cannot represent
+ */
+export type SerializedTypedValue =
+  | { __type: "timestamp"; seconds: number; nanoseconds: number }
+  | { __type: "date"; value: string } // ISO 8601 string
+  | { __type: "geopoint"; latitude: number; longitude: number }
+  | { __type: "reference"; path: string } // Document path
+  | { __type: "bytes"; base64: string }
+  | { __type: "number"; value: string } // NaN, Infinity, -Infinity
+  | { __type: "map"; value: SerializedMap } // Map that uses the "__type" key
+  | {
+      __type: "fieldValue";
+      method:
+        | "delete"
+        | "serverTimestamp"
+        | "increment"
+        | "arrayUnion"
+        | "arrayRemove";
+      args: SerializedValue[];
+    };
+
+/**
+ * Query definition produced by BatchUpdater.toJSON()
+ */
+export interface SerializedQuery {
+  version: 1; // Format version
+  collection?: string; // Collection path (collection())
+  collectionGroup?: string; // Collection ID (collectionGroup())
+  where?: FilterCondition[]; // Conditions with encoded values
+  orderBy?: OrderByCondition[];
+  limit?: number;
+  docs?: string[]; // Document IDs (docs())
+}
+
+/**
+ * Operation to run on a query
+ */
+export type OperationDefinition =
+  | { operation: "update" | "upsert"; data: Record<string, any> }
+  | { operation: "delete" }
+  | { operation: "create" | "upsert"; documents: CreateDocumentInput[] };
+
+/**
+ * Options that can be stored with a serialized operation
+ */
+export interface SerializedOperationOptions {
+  batchSize?: number;
+  log?: LogOptions;
+  atomic?: boolean;
+  onConflict?: CreateConflictMode; // create only
+  retry?: Omit<RetryOptions, "shouldRetry">;
+  throttle?: ThrottleOptions;
+  precondition?: "unchanged"; // update/delete only
+  conflictRetries?: number; // update/delete only
+  recursive?: boolean; // delete only
+  maxDepth?: number; // delete only
+}
+
+/**
+ * Query and operation definition produced by BatchUpdater.toOperationJSON()
+ */
+export interface SerializedOperation extends SerializedQuery {
+  operation: OperationDefinition["operation"];
+  data?: SerializedMap; // Encoded update data (update/upsert)
+  documents?: { id?: string; data: SerializedMap }[]; // Encoded documents (create, upsert with documents)
+  options?: SerializedOperationOptions;
+}
+
+/**
+ * Result of running a serialized operation
+ */
+export type OperationResult = (
+  | UpdateResult
+  | UpsertResult
+  | DeleteResult
+  | CreateResult
+) & { logFilePath?: string };
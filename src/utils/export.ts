@@ -0,0 +1,128 @@
+/**
+ * Export utilities for Firestore Batch Updater
+ *
+ * Conversion of documents into NDJSON/JSON records and CSV rows for export().
+ * Values use the encodeValue() format so import() can restore their types
+ */
+
+import type { SerializedMap, SerializedValue } from "../types";
+import { encodeValue } from "./serializer";
+
+/**
+ * Key used to tag encoded values (see serializer)
+ */
+const TYPE_KEY = "__type";
+
+/**
+ * JSON number, boolean and null literals
+ */
+const CSV_LITERAL =
+  /^(?:-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)$/;
+
+/**
+ * Check whether CSV cell text is a number, boolean or null written by export()
+ * @param text - Cell text
+ * @returns True if the cell holds a JSON literal
+ */
+export function isCsvLiteral(text: string): boolean {
+  return CSV_LITERAL.test(text);
+}
+
+/**
+ * Convert a document into an export record
+ * Top-level fields are encoded one by one so they stay plain keys of the record
+ * @param id - Document ID (full path for collection groups)
+ * @param data - Document data
+ * @param idField - Key the document ID is written to
+ * @returns Record with the ID and encoded fields
+ */
+export function toExportRecord(
+  id: string,
+  data: Record<string, any>,
+  idField: string
+): SerializedMap {
+  if (idField in data) {
+    throw new Error(
+      `Document "${id}" has a field named "${idField}". Choose another idField`
+    );
+  }
+
+  const record: SerializedMap = { [idField]: id };
+  for (const [key, value] of Object.entries(data)) {
+    record[key] = encodeValue(value);
+  }
+
+  return record;
+}
+
+/**
+ * Flatten an export record into CSV cells
+ * Nested maps become dotted columns (e.g., "address.zip") up to maxDepth levels;
+ * deeper maps, arrays and tagged values are written as JSON
+ * @param record - Record from toExportRecord()
+ * @param maxDepth - Levels of nested maps to flatten (0 writes maps as JSON)
+ * @returns Cell text keyed by column name
+ */
+export function toCsvCells(
+  record: SerializedMap,
+  maxDepth = Infinity
+): Record<string, string> {
+  const cells: Record<string, string> = {};
+
+  const visit = (value: SerializedValue, column: string, depth: number) => {
+    if (
+      value !== null &&
+      typeof value === "object" &&
+      !Array.isArray(value) &&
+      !(TYPE_KEY in value) &&
+      Object.keys(value).length > 0 &&
+      depth < maxDepth
+    ) {
+      for (const [key, item] of Object.entries(value)) {
+        visit(item, `${column}.${key}`, depth + 1);
+      }
+      return;
+    }
+    cells[column] = toCsvCell(value);
+  };
+
+  for (const [key, value] of Object.entries(record)) {
+    visit(value, key, 0);
+  }
+
+  return cells;
+}
+
+/**
+ * Format one CSV row, quoting cells where needed
+ * @param cells - Cell texts in column order
+ * @param delimiter - Field delimiter
+ * @returns Row text without a line break
+ */
+export function formatCsvRow(cells: string[], delimiter = ","): string {
+  return cells
+    .map((cell) =>
+      cell.includes(delimiter) ||
+      cell.includes('"') ||
+      cell.includes("\n") ||
+      cell.includes("\r")
+        ? `"${cell.replace(/"/g, '""')}"`
+        : cell
+    )
+    .join(delimiter);
+}
+
+/**
+ * Convert an encoded value into CSV cell text
+ * Numbers, booleans and null are written as JSON literals. Strings are written as-is
+ * unless they could be read back as another value (JSON, a literal or a missing field)
+ * @private
+ */
+function toCsvCell(value: SerializedValue): string {
+  if (typeof value === "string") {
+    return value === "" || /^["{[]/.test(value) || isCsvLiteral(value)
+      ? JSON.stringify(value)
+      : value;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,106 @@
+/**
+ * Field operation utilities for Firestore Batch Updater
+ *
+ * Transforms used by renameField(), moveField() and removeFields().
+ * They can also be passed to preview() or updateWith() directly
+ */
+
+import { FieldValue } from "firebase-admin/firestore";
+import type { DocumentTransform } from "../types";
+import { getFieldValue } from "./filter";
+
+/**
+ * Create a transform that renames a field under the same parent
+ * @param from - Field path to rename (e.g., "profile.userName")
+ * @param newName - New field name, without dots (e.g., "displayName")
+ * @returns Transform that skips documents without the field
+ */
+export function renameFieldTransform(
+  from: string,
+  newName: string
+): DocumentTransform {
+  if (typeof newName !== "string" || newName.length === 0) {
+    throw new Error("New field name must be a non-empty string");
+  }
+  if (newName.includes(".")) {
+    throw new Error(
+      `New field name must not contain ".": "${newName}". Use moveField() to change the parent`
+    );
+  }
+
+  const parent = from.includes(".")
+    ? from.slice(0, from.lastIndexOf(".") + 1)
+    : "";
+
+  return moveFieldTransform(from, parent + newName);
+}
+
+/**
+ * Create a transform that moves a field to another path
+ * @param from - Field path to move (e.g., "address")
+ * @param to - Destination field path (e.g., "profile.address")
+ * @returns Transform that skips documents without the field
+ */
+export function moveFieldTransform(
+  from: string,
+  to: string
+): DocumentTransform {
+  validateFieldPath(from);
+  validateFieldPath(to);
+
+  if (from === to) {
+    throw new Error(`Source and destination are the same field: "${from}"`);
+  }
+  if (to.startsWith(`${from}.`) || from.startsWith(`${to}.`)) {
+    throw new Error(
+      `Cannot move "${from}" to "${to}": one path contains the other`
+    );
+  }
+
+  return (data) => {
+    const value = getFieldValue(data, from);
+    if (value === undefined) {
+      return null;
+    }
+
+    return { [to]: value, [from]: FieldValue.delete() };
+  };
+}
+
+/**
+ * Create a transform that removes fields
+ * @param fields - Field paths to remove
+ * @returns Transform that skips documents with none of the fields
+ */
+export function removeFieldsTransform(fields: string[]): DocumentTransform {
+  if (!Array.isArray(fields) || fields.length === 0) {
+    throw new Error("Fields array must be non-empty");
+  }
+  fields.forEach(validateFieldPath);
+
+  return (data) => {
+    const updateData: Record<string, any> = {};
+
+    for (const field of fields) {
+      if (getFieldValue(data, field) !== undefined) {
+        updateData[field] = FieldValue.delete();
+      }
+    }
+
+    return Object.keys(updateData).length > 0 ? updateData : null;
+  };
+}
+
+/**
+ * Validate a dot-separated field path
+ * @private
+ */
+function validateFieldPath(path: string): void {
+  if (
+    typeof path !== "string" ||
+    path.length === 0 ||
+    path.split(".").some((key) => key.length === 0)
+  ) {
+    throw new Error(`Invalid field path: "${path}"`);
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Filter helpers for composing AND/OR query conditions
+ */
+
+import type { CompositeCondition, FilterCondition } from "../types";
+
+/**
+ * Combine conditions so that a document must match at least one of them
+ * @param conditions - Conditions or nested groups
+ * @returns OR condition group
+ */
+export function or(...conditions: FilterCondition[]): CompositeCondition {
+  return createCompositeCondition("or", conditions);
+}
+
+/**
+ * Combine conditions so that a document must match all of them
+ * @param conditions - Conditions or nested groups
+ * @returns AND condition group
+ */
+export function and(...conditions: FilterCondition[]): CompositeCondition {
+  return createCompositeCondition("and", conditions);
+}
+
+/**
+ * Check if a condition is an AND/OR group
+ * @param condition - Condition to check
+ * @returns True if condition is a composite condition
+ */
+export function isCompositeCondition(
+  condition: FilterCondition
+): condition is CompositeCondition {
+  return (
+    (condition as CompositeCondition).type === "and" ||
+    (condition as CompositeCondition).type === "or"
+  );
+}
+
+/**
+ * Create a validated condition group
+ * @private
+ */
+function createCompositeCondition(
+  type: "and" | "or",
+  conditions: FilterCondition[]
+): CompositeCondition {
+  if (conditions.length === 0) {
+    throw new Error(`${type}() requires at least one condition`);
+  }
+
+  return { type, conditions };
+}
+
+/**
+ * Deep copy and freeze a condition tree
+ * Value lists (e.g., for "in") are copied so later changes by the caller
+ * do not affect stored queries
+ * @param condition - Condition or nested group
+ * @returns Frozen copy of the condition
+ */
+export function cloneCondition(condition: FilterCondition): FilterCondition {
+  if (isCompositeCondition(condition)) {
+    return Object.freeze({
+      type: condition.type,
+      conditions: Object.freeze(condition.conditions.map(cloneCondition)),
+    }) as CompositeCondition;
+  }
+
+  return Object.freeze({
+    field: condition.field,
+    operator: condition.operator,
+    value: Array.isArray(condition.value)
+      ? Object.freeze([...condition.value])
+      : condition.value,
+  });
+}
+
+/**
+ * Compare two Firestore values for equality
+ * Uses isEqual() for Firestore types (Timestamp, GeoPoint, DocumentReference, etc.)
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if both values are equal
+ */
+export function isEqualValue(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (
+    a === null ||
+    b === null ||
+    typeof a !== "object" ||
+    typeof b !== "object"
+  ) {
+    return false;
+  }
+  // Dates are stored as Timestamps, so compare them by milliseconds
+  if (a instanceof Date || b instanceof Date) {
+    return toMillis(a) !== undefined && toMillis(a) === toMillis(b);
+  }
+  if (typeof a.isEqual === "function") {
+    return a.isEqual(b);
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => isEqualValue(item, b[i]))
+    );
+  }
+
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => isEqualValue(a[key], b[key]))
+  );
+}
+
+/**
+ * Remove repeated values from a condition value list, keeping the first of each
+ * @param values - Values of an "in", "not-in" or "array-contains-any" condition
+ * @returns Values without duplicates, in their original order
+ */
+export function uniqueValues(values: any[]): any[] {
+  return values.filter(
+    (value, i) => values.findIndex((other) => isEqualValue(value, other)) === i
+  );
+}
+
+/**
+ * Check document data against a condition tree on the client
+ * Mirrors Firestore semantics: documents without the field never match,
+ * and values of different types are not ordered against each other
+ * @param data - Document data
+ * @param conditions - Conditions or nested groups (all must match)
+ * @returns True if the data matches every condition
+ */
+export function matchesConditions(
+  data: Record<string, any>,
+  conditions: readonly FilterCondition[]
+): boolean {
+  return conditions.every((condition) => matchesCondition(data, condition));
+}
+
+/**
+ * Get nested value from document data using dot notation
+ * @param data - Document data
+ * @param path - Field path (e.g., "profile.name")
+ * @returns Field value, or undefined if the field does not exist
+ */
+export function getFieldValue(data: Record<string, any>, path: string): any {
+  let current: any = data;
+
+  for (const key of path.split(".")) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    current = current[key];
+  }
+
+  return current;
+}
+
+/**
+ * Check document data against one condition or group
+ * @private
+ */
+function matchesCondition(
+  data: Record<string, any>,
+  condition: FilterCondition
+): boolean {
+  if (isCompositeCondition(condition)) {
+    return condition.type === "or"
+      ? condition.conditions.some((c) => matchesCondition(data, c))
+      : condition.conditions.every((c) => matchesCondition(data, c));
+  }
+
+  const value = getFieldValue(data, condition.field);
+  const expected = condition.value;
+
+  if (value === undefined) {
+    return false;
+  }
+
+  switch (condition.operator) {
+    case "==":
+      return isEqualValue(value, expected);
+    case "!=":
+      return !isEqualValue(value, expected);
+    case "<":
+      return (compareValues(value, expected) ?? 0) < 0;
+    case "<=":
+      return (compareValues(value, expected) ?? 1) <= 0;
+    case ">":
+      return (compareValues(value, expected) ?? 0) > 0;
+    case ">=":
+      return (compareValues(value, expected) ?? -1) >= 0;
+    case "in":
+      return expected.some((v: any) => isEqualValue(value, v));
+    case "not-in":
+      return !expected.some((v: any) => isEqualValue(value, v));
+    case "array-contains":
+      return (
+        Array.isArray(value) && value.some((v) => isEqualValue(v, expected))
+      );
+    case "array-contains-any":
+      return (
+        Array.isArray(value) &&
+        value.some((v) => expected.some((e: any) => isEqualValue(v, e)))
+      );
+    default:
+      throw new Error(`Unsupported operator: ${condition.operator}`);
+  }
+}
+
+/**
+ * Order two values of the same type
+ * @returns Negative, zero or positive, or undefined if the values cannot be ordered
+ * @private
+ */
+function compareValues(a: any, b: any): number | undefined {
+  const aMillis = toMillis(a);
+  const bMillis = toMillis(b);
+
+  if (aMillis !== undefined && bMillis !== undefined) {
+    return aMillis - bMillis;
+  }
+  if (
+    (typeof a === "number" && typeof b === "number") ||
+    (typeof a === "string" && typeof b === "string") ||
+    (typeof a === "boolean" && typeof b === "boolean")
+  ) {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return undefined;
+}
+
+/**
+ * Get milliseconds from a Date or Timestamp
+ * @private
+ */
+function toMillis(value: any): number | undefined {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value?.toMillis === "function") {
+    return value.toMillis();
+  }
+  return undefined;
+}
@@ -0,0 +1,545 @@
+/**
+ * Import utilities for Firestore Batch Updater
+ *
+ * Streaming readers for NDJSON, JSON array and CSV files, and the
+ * conversion of their records into documents for import().
+ * Records are read one at a time so files of any size can be imported
+ */
+
+import * as path from "path";
+import * as readline from "readline";
+import type { Readable } from "stream";
+import {
+  Timestamp,
+  GeoPoint,
+  DocumentReference,
+} from "firebase-admin/firestore";
+import type { Firestore } from "firebase-admin/firestore";
+import type {
+  CreateDocumentInput,
+  ImportFieldType,
+  ImportOptions,
+  RecordFormat,
+  SerializedValue,
+} from "../types";
+import { isCsvLiteral } from "./export";
+import { decodeValue } from "./serializer";
+
+/**
+ * Record read from an import file
+ */
+export interface SourceRecord {
+  line: number; // Line the record starts on (1-based)
+  raw: string; // Record text as found in the file
+  record?: Record<string, any>; // Parsed record (absent when it could not be parsed)
+  error?: string; // Why the record could not be parsed
+}
+
+/**
+ * Infer the format of a file from its extension
+ * @param filePath - File path (e.g., "users.ndjson")
+ * @returns Format for import() / export()
+ */
+export function inferRecordFormat(filePath: string): RecordFormat {
+  switch (path.extname(filePath).toLowerCase()) {
+    case ".ndjson":
+    case ".jsonl":
+      return "ndjson";
+    case ".json":
+      return "json";
+    case ".csv":
+      return "csv";
+    default:
+      throw new Error(
+        `Cannot infer the format of "${filePath}". Pass format: "ndjson", "json" or "csv"`
+      );
+  }
+}
+
+/**
+ * Read records from a text stream one at a time
+ * Malformed records are yielded with an error; problems with the file as a whole throw
+ * @param stream - Stream of the file contents (utf-8 encoded strings)
+ * @param format - File format
+ * @param delimiter - CSV field delimiter
+ * @returns Async iterator over the records
+ */
+export function readRecords(
+  stream: Readable,
+  format: RecordFormat,
+  delimiter = ","
+): AsyncGenerator<SourceRecord> {
+  switch (format) {
+    case "ndjson":
+      return readNdjsonRecords(stream);
+    case "json":
+      return readJsonArrayRecords(stream);
+    case "csv":
+      return readCsvRecords(stream, delimiter);
+    default:
+      throw new Error(`Unsupported format: "${format}"`);
+  }
+}
+
+/**
+ * Convert a parsed record into a document for create() / upsert()
+ * @param record - Parsed record
+ * @param options - Import options (idField, columns, types)
+ * @param firestore - Firestore instance used to create document references
+ * @param csv - Whether the record comes from a CSV file (values are strings)
+ * @returns Document with its ID (when idField is set) and data
+ */
+export function toImportDocument(
+  record: Record<string, any>,
+  options: ImportOptions,
+  firestore: Firestore,
+  csv: boolean
+): CreateDocumentInput {
+  const data: Record<string, any> = {};
+  let id: string | undefined;
+
+  for (const [key, rawValue] of Object.entries(record)) {
+    // Empty CSV cells are left out of the document
+    if (csv && rawValue === "") {
+      continue;
+    }
+
+    if (key === options.idField) {
+      id = toDocumentId(rawValue);
+      continue;
+    }
+
+    const type = options.types?.[key];
+    let value: any;
+    try {
+      // A string column keeps cells like 007 or 1e3 as they were written
+      const decoded = csv
+        ? decodeCell(rawValue, firestore, type !== "string")
+        : decodeValue(rawValue as SerializedValue, firestore);
+      value = type ? coerceValue(decoded, type, firestore) : decoded;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Field "${key}": ${message}`);
+    }
+
+    // Mapped fields and CSV column names are field paths
+    const target = options.columns?.[key];
+    setFieldPath(
+      data,
+      target !== undefined || csv ? (target ?? key).split(".") : [key],
+      value
+    );
+  }
+
+  if (options.idField && id === undefined) {
+    throw new Error(`Missing ID field "${options.idField}"`);
+  }
+  if (Object.keys(data).length === 0) {
+    throw new Error("Record has no fields to write");
+  }
+
+  return { id, data };
+}
+
+/**
+ * Convert a value to a Firestore type
+ * @param value - Value read from the file
+ * @param type - Target type
+ * @param firestore - Firestore instance used to create document references
+ * @returns Converted value (null stays null)
+ */
+export function coerceValue(
+  value: any,
+  type: ImportFieldType,
+  firestore: Firestore
+): any {
+  if (value === null) {
+    return null;
+  }
+
+  switch (type) {
+    case "string":
+      if (typeof value === "object") {
+        throw new Error("Expected a string");
+      }
+      return String(value);
+    case "number": {
+      const number =
+        typeof value === "string" && value.trim() !== ""
+          ? Number(value)
+          : value;
+      if (typeof number !== "number" || Number.isNaN(number)) {
+        throw new Error(`Expected a number but got ${JSON.stringify(value)}`);
+      }
+      return number;
+    }
+    case "boolean": {
+      if (typeof value === "boolean") {
+        return value;
+      }
+      const text = String(value).trim().toLowerCase();
+      if (text === "true" || text === "1") {
+        return true;
+      }
+      if (text === "false" || text === "0") {
+        return false;
+      }
+      throw new Error(`Expected a boolean but got ${JSON.stringify(value)}`);
+    }
+    case "timestamp": {
+      if (value instanceof Timestamp) {
+        return value;
+      }
+      const date =
+        value instanceof Date
+          ? value
+          : typeof value === "number" || typeof value === "string"
+            ? new Date(value)
+            : undefined;
+      if (!date || Number.isNaN(date.getTime())) {
+        throw new Error(
+          `Expected a date or milliseconds but got ${JSON.stringify(value)}`
+        );
+      }
+      return Timestamp.fromDate(date);
+    }
+    case "geopoint": {
+      if (value instanceof GeoPoint) {
+        return value;
+      }
+      const [latitude, longitude] =
+        typeof value === "string"
+          ? value.split(",").map((part) => Number(part.trim()))
+          : Array.isArray(value)
+            ? value
+            : [value?.latitude, value?.longitude];
+      if (typeof latitude !== "number" || typeof longitude !== "number") {
+        throw new Error(
+          `Expected "latitude,longitude" but got ${JSON.stringify(value)}`
+        );
+      }
+      return new GeoPoint(latitude, longitude);
+    }
+    case "reference":
+      if (value instanceof DocumentReference) {
+        return value;
+      }
+      if (typeof value !== "string") {
+        throw new Error("Expected a document path");
+      }
+      return firestore.doc(value);
+    case "json":
+      return typeof value === "string"
+        ? decodeValue(JSON.parse(value), firestore)
+        : value;
+    default:
+      throw new Error(`Unknown type: "${type}"`);
+  }
+}
+
+/**
+ * Read records from an NDJSON stream
+ * @private
+ */
+async function* readNdjsonRecords(
+  stream: Readable
+): AsyncGenerator<SourceRecord> {
+  const lines = readline.createInterface({
+    input: stream,
+    crlfDelay: Infinity,
+  });
+  let line = 0;
+
+  for await (const text of lines) {
+    line++;
+    if (text.trim() !== "") {
+      yield parseJsonRecord(text, line);
+    }
+  }
+}
+
+/**
+ * Read the elements of a JSON array stream without loading the whole array
+ * @private
+ */
+async function* readJsonArrayRecords(
+  stream: Readable
+): AsyncGenerator<SourceRecord> {
+  let line = 1;
+  let started = false;
+  let ended = false;
+
+  // Current element, split at top-level commas
+  let element = "";
+  let elementLine = 1;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for await (const chunk of stream) {
+    for (const char of chunk as string) {
+      if (char === "\n") {
+        line++;
+      }
+
+      if (ended || !started) {
+        if (/\s/.test(char)) {
+          continue;
+        }
+        if (ended) {
+          throw new Error(
+            `Unexpected content after the JSON array (line ${line})`
+          );
+        }
+        if (char !== "[") {
+          throw new Error("JSON file must contain an array of records");
+        }
+        started = true;
+        continue;
+      }
+
+      if (inString) {
+        element += char;
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (depth === 0 && (char === "," || char === "]")) {
+        if (element !== "") {
+          yield parseJsonRecord(element.trimEnd(), elementLine);
+        } else if (char === ",") {
+          yield { line, raw: "", error: "Empty array element" };
+        }
+        element = "";
+        ended = char === "]";
+        continue;
+      }
+
+      if (element === "") {
+        if (/\s/.test(char)) {
+          continue;
+        }
+        elementLine = line;
+      }
+
+      element += char;
+      if (char === '"') {
+        inString = true;
+      } else if (char === "{" || char === "[") {
+        depth++;
+      } else if (char === "}" || char === "]") {
+        depth--;
+      }
+    }
+  }
+
+  if (!ended) {
+    throw new Error(
+      started
+        ? "Unexpected end of JSON array"
+        : "JSON file must contain an array of records"
+    );
+  }
+}
+
+/**
+ * Read rows of a CSV stream as records keyed by the header row
+ * Quoted fields may contain delimiters, escaped quotes ("") and line breaks
+ * @private
+ */
+async function* readCsvRecords(
+  stream: Readable,
+  delimiter: string
+): AsyncGenerator<SourceRecord> {
+  let header: string[] | undefined;
+  let row: string[] = [];
+  let field = "";
+  let raw = "";
+  let line = 1;
+  let rowLine = 1;
+  let inQuotes = false;
+  let quoteClosed = false;
+
+  const endRow = (): SourceRecord | undefined => {
+    row.push(field);
+    const cells = row;
+    const text = raw.replace(/\r$/, "");
+    const record = { line: rowLine, raw: text };
+
+    row = [];
+    field = "";
+    raw = "";
+
+    // Blank lines are ignored
+    if (cells.length === 1 && cells[0].trim() === "") {
+      return undefined;
+    }
+
+    if (!header) {
+      if (new Set(cells).size !== cells.length || cells.includes("")) {
+        throw new Error("CSV header must have unique, non-empty column names");
+      }
+      header = cells;
+      return undefined;
+    }
+
+    if (cells.length !== header.length) {
+      return {
+        ...record,
+        error: `Expected ${header.length} columns but found ${cells.length}`,
+      };
+    }
+
+    return {
+      ...record,
+      record: Object.fromEntries(header.map((name, i) => [name, cells[i]])),
+    };
+  };
+
+  for await (const chunk of stream) {
+    for (const char of chunk as string) {
+      if (char === "\n" && !inQuotes) {
+        const result = endRow();
+        if (result) {
+          yield result;
+        }
+        line++;
+        rowLine = line;
+        quoteClosed = false;
+        continue;
+      }
+
+      raw += char;
+
+      if (inQuotes) {
+        if (char === '"') {
+          inQuotes = false;
+          quoteClosed = true;
+        } else {
+          field += char;
+          if (char === "\n") {
+            line++;
+          }
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        // "" inside a quoted field is an escaped quote
+        if (quoteClosed) {
+          field += '"';
+        }
+        inQuotes = true;
+        quoteClosed = false;
+        continue;
+      }
+
+      quoteClosed = false;
+      if (char === delimiter) {
+        row.push(field);
+        field = "";
+      } else if (char !== "\r") {
+        field += char;
+      }
+    }
+  }
+
+  if (inQuotes) {
+    yield { line: rowLine, raw, error: "Unterminated quoted field" };
+  } else if (raw !== "" || row.length > 0) {
+    const result = endRow();
+    if (result) {
+      yield result;
+    }
+  }
+}
+
+/**
+ * Parse one JSON record
+ * @private
+ */
+function parseJsonRecord(text: string, line: number): SourceRecord {
+  try {
+    const record = JSON.parse(text);
+    if (
+      record === null ||
+      typeof record !== "object" ||
+      Array.isArray(record)
+    ) {
+      return { line, raw: text, error: "Record must be a JSON object" };
+    }
+    return { line, raw: text, record };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { line, raw: text, error: `Invalid JSON: ${message}` };
+  }
+}
+
+/**
+ * Decode a CSV cell holding JSON written by export() (tagged values, maps,
+ * arrays, quoted strings, and number, boolean and null literals)
+ * Other cells stay strings
+ * @param literals - Whether number, boolean and null literals are decoded
+ * @private
+ */
+function decodeCell(
+  cell: string,
+  firestore: Firestore,
+  literals: boolean
+): any {
+  if (literals && isCsvLiteral(cell)) {
+    return JSON.parse(cell);
+  }
+  if (/^["{[]/.test(cell)) {
+    try {
+      return decodeValue(JSON.parse(cell), firestore);
+    } catch {
+      return cell;
+    }
+  }
+  return cell;
+}
+
+/**
+ * Validate a document ID read from a record
+ * @private
+ */
+function toDocumentId(value: unknown): string {
+  const id =
+    typeof value === "number" ? String(value) : (value as string | undefined);
+
+  if (typeof id !== "string" || id.trim() === "" || id.includes("/")) {
+    throw new Error(`Invalid document ID: ${JSON.stringify(value)}`);
+  }
+
+  return id;
+}
+
+/**
+ * Set a value at a field path, creating nested maps
+ * @private
+ */
+function setFieldPath(
+  data: Record<string, any>,
+  keys: string[],
+  value: any
+): void {
+  let current = data;
+  for (const key of keys.slice(0, -1)) {
+    if (
+      current[key] === null ||
+      typeof current[key] !== "object" ||
+      Array.isArray(current[key])
+    ) {
+      current[key] = {};
+    }
+    current = current[key];
+  }
+  current[keys[keys.length - 1]] = value;
+}
@@ -2,6 +2,7 @@
  * Utility functions for Firestore Batch Updater
  */
 
+import { FieldValue } from "firebase-admin/firestore";
 import type { ProgressInfo } from "../types";
 
 // Re-export logger utilities
@@ -14,6 +15,66 @@ export {
   createLogCollector,
 } from "./logger";
 
+// Re-export filter utilities
+export {
+  or,
+  and,
+  isCompositeCondition,
+  cloneCondition,
+  isEqualValue,
+  uniqueValues,
+  matchesConditions,
+  getFieldValue,
+} from "./filter";
+
+// Re-export query plan utilities
+export {
+  MAX_DISJUNCTION_VALUES,
+  MAX_NOT_IN_VALUES,
+  planConditions,
+  filterSubQueryDocs,
+} from "./query-plan";
+
+// Re-export field operation utilities
+export {
+  renameFieldTransform,
+  moveFieldTransform,
+  removeFieldsTransform,
+} from "./field-ops";
+
+// Re-export import utilities
+export {
+  inferRecordFormat,
+  readRecords,
+  toImportDocument,
+  coerceValue,
+} from "./import";
+
+// Re-export export utilities
+export { toExportRecord, toCsvCells, formatCsvRow } from "./export";
+
+// Re-export retry utilities
+export {
+  resolveRetryPolicy,
+  shouldRetryWrite,
+  isIdempotentData,
+  retryDelay,
+  sleep,
+  getErrorCode,
+} from "./retry";
+export type { RetryPolicy } from "./retry";
+
+// Re-export throttling utilities
+export { Throttle, validateThrottleOptions } from "./throttle";
+
+// Re-export serialization utilities
+export {
+  encodeValue,
+  decodeValue,
+  encodeConditions,
+  decodeConditions,
+} from "./serializer";
+
 /**
  * Calculate progress information
  * @param current - Number of documents processed so far
@@ -44,18 +105,41 @@ export function getAffectedFields(updateData: Record<string, any>): string[] {
 
 /**
  * Merge update data with existing document data
+ * Dot-separated keys are applied as nested field paths and
+ * FieldValue.delete() removes the field, as in update()
  * @param existingData - Current document data
  * @param updateData - Data to update
- * @returns Merged data (shallow merge)
+ * @returns Merged data
  */
 export function mergeUpdateData(
   existingData: Record<string, any>,
   updateData: Record<string, any>
 ): Record<string, any> {
-  return {
-    ...existingData,
-    ...updateData,
-  };
+  const merged: Record<string, any> = { ...existingData };
+
+  for (const [fieldPath, value] of Object.entries(updateData)) {
+    const keys = fieldPath.split(".");
+    const last = keys.pop()!;
+    let parent = merged;
+
+    // Copy each parent map on the way down so existingData is not modified
+    for (const key of keys) {
+      const child = parent[key];
+      parent[key] =
+        child !== null && typeof child === "object" && !Array.isArray(child)
+          ? { ...child }
+          : {};
+      parent = parent[key];
+    }
+
+    if (value instanceof FieldValue && value.isEqual(FieldValue.delete())) {
+      delete parent[last];
+    } else {
+      parent[last] = value;
+    }
+  }
+
+  return merged;
 }
 
 /**
@@ -82,3 +166,43 @@ export function formatError(error: unknown, context?: string): string {
   const errorMessage = error instanceof Error ? error.message : String(error);
   return context ? `Error at ${context}: ${errorMessage}` : errorMessage;
 }
+
+/**
+ * Split an array into chunks of a maximum size
+ * @param items - Array to split
+ * @param size - Maximum chunk size
+ * @returns Array of chunks
+ */
+export function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+
+  return chunks;
+}
+
+/**
+ * Split a string into parts of a maximum length
+ * A surrogate pair is never split, so every part stays valid UTF-16
+ * @param value - String to split
+ * @param size - Maximum part length in UTF-16 code units (at least 2)
+ * @returns Parts in order (one empty part for an empty string)
+ */
+export function chunkString(value: string, size: number): string[] {
+  const parts: string[] = [];
+  let start = 0;
+
+  do {
+    let end = Math.min(start + size, value.length);
+    const code = value.charCodeAt(end - 1);
+    if (end < value.length && code >= 0xd800 && code <= 0xdbff) {
+      end--;
+    }
+    parts.push(value.slice(start, end));
+    start = end;
+  } while (start < value.length);
+
+  return parts;
+}
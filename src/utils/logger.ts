@@ -4,7 +4,18 @@
 
 import * as fs from "fs";
 import * as path from "path";
-import type { LogOptions, LogEntry, OperationLog, WhereCondition } from "../types";
+import type {
+  LogOptions,
+  LogEntry,
+  OperationLog,
+  FilterCondition,
+  LogCollectorOptions,
+  SerializedMap,
+  OperationType,
+  PageCursor,
+} from "../types";
+import { isCompositeCondition } from "./filter";
+import { encodeConditions, encodeValue } from "./serializer";
 
 /**
  * Get ISO timestamp string
@@ -45,22 +56,59 @@ export function formatOperationLog(log: OperationLog): string {
   lines.push(separator);
   lines.push("");
   lines.push(`Operation: ${log.operation.toUpperCase()}`);
-  lines.push(`Collection: ${log.collection}`);
+  if (log.collectionGroup) {
+    lines.push(`Collection Group: ${log.collection}`);
+  } else {
+    lines.push(`Collection: ${log.collection}`);
+  }
+  if (log.target) {
+    lines.push(`Target: ${log.target}`);
+  }
+  if (log.source) {
+    lines.push(`Source: ${log.source}`);
+  }
+  if (log.backup) {
+    lines.push(`Backup: ${log.backup}`);
+  }
+  if (log.checkpoint) {
+    lines.push(`Checkpoint: ${log.checkpoint}`);
+  }
   lines.push(`Started: ${log.startedAt}`);
+  if (log.resumedAt) {
+    lines.push(`Resumed: ${log.resumedAt}`);
+  }
   lines.push(`Completed: ${log.completedAt}`);
+  if (log.aborted) {
+    lines.push("Aborted: yes");
+  }
+  if (log.lastCursor) {
+    lines.push(`Last Cursor: ${JSON.stringify(log.lastCursor)}`);
+  }
   lines.push("");
 
   if (log.conditions && log.conditions.length > 0) {
     lines.push("Conditions:");
-    for (const condition of log.conditions) {
-      lines.push(`  - ${condition.field} ${condition.operator} ${formatValue(condition.value)}`);
-    }
+    lines.push(...formatConditions(log.conditions, 1));
+    lines.push("");
+  }
+
+  if (log.clientFilterCount) {
+    lines.push(
+      `Client Filters: ${log.clientFilterCount} (applied after query)`
+    );
+    lines.push("");
+  }
+
+  if (log.computedUpdate) {
+    lines.push(`Update Data: ${log.computedUpdate}`);
     lines.push("");
   }
 
   if (log.updateData) {
     lines.push("Update Data:");
-    lines.push(`  ${JSON.stringify(log.updateData, null, 2).replace(/\n/g, "\n  ")}`);
+    lines.push(
+      `  ${JSON.stringify(log.updateData, null, 2).replace(/\n/g, "\n  ")}`
+    );
     lines.push("");
   }
 
@@ -70,6 +118,18 @@ export function formatOperationLog(log: OperationLog): string {
   lines.push(`Total: ${log.summary.totalCount}`);
   lines.push(`Success: ${log.summary.successCount}`);
   lines.push(`Failure: ${log.summary.failureCount}`);
+  if (log.summary.missingCount) {
+    lines.push(`Missing: ${log.summary.missingCount}`);
+  }
+  if (log.summary.skippedCount) {
+    lines.push(`Skipped: ${log.summary.skippedCount}`);
+  }
+  if (log.summary.conflictCount) {
+    lines.push(`Conflicts: ${log.summary.conflictCount}`);
+  }
+  if (log.summary.overwrittenCount) {
+    lines.push(`Overwritten: ${log.summary.overwrittenCount}`);
+  }
   lines.push("");
 
   if (log.entries.length > 0) {
@@ -79,7 +139,7 @@ export function formatOperationLog(log: OperationLog): string {
     lines.push("");
 
     for (const entry of log.entries) {
-      const statusLabel = entry.status === "success" ? "[SUCCESS]" : "[FAILURE]";
+      const statusLabel = `[${entry.status.toUpperCase()}]`;
       lines.push(`${entry.timestamp} ${statusLabel} ${entry.documentId}`);
       if (entry.error) {
         lines.push(`  Error: ${entry.error}`);
@@ -95,6 +155,30 @@ export function formatOperationLog(log: OperationLog): string {
   return lines.join("\n");
 }
 
+/**
+ * Format condition tree as indented list lines
+ */
+function formatConditions(
+  conditions: FilterCondition[],
+  depth: number
+): string[] {
+  const lines: string[] = [];
+  const indent = "  ".repeat(depth);
+
+  for (const condition of conditions) {
+    if (isCompositeCondition(condition)) {
+      lines.push(`${indent}- ${condition.type.toUpperCase()}`);
+      lines.push(...formatConditions(condition.conditions, depth + 1));
+    } else {
+      lines.push(
+        `${indent}- ${condition.field} ${condition.operator} ${formatValue(condition.value)}`
+      );
+    }
+  }
+
+  return lines;
+}
+
 /**
  * Format value for display
  */
@@ -105,6 +189,25 @@ function formatValue(value: any): string {
   if (typeof value === "string") {
     return `"${value}"`;
   }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(", ")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    // Encoded values (see encodeValue)
+    switch (value.__type) {
+      case "date":
+        return value.value;
+      case "timestamp":
+        return new Date(
+          value.seconds * 1000 + Math.floor(value.nanoseconds / 1e6)
+        ).toISOString();
+      case "geopoint":
+        return `GeoPoint(${value.latitude}, ${value.longitude})`;
+      case "reference":
+        return value.path;
+    }
+    return JSON.stringify(value);
+  }
   return String(value);
 }
 
@@ -131,20 +234,35 @@ export function writeOperationLog(
  * Create a log collector for tracking operation entries
  */
 export function createLogCollector(
-  operation: "update" | "create" | "upsert" | "delete",
+  operation: OperationType,
   collection: string,
-  conditions?: WhereCondition[],
-  updateData?: Record<string, any>
+  conditions?: readonly FilterCondition[],
+  updateData?: Record<string, any>,
+  collectorOptions: LogCollectorOptions = {}
 ): {
-  addEntry: (documentId: string, status: "success" | "failure", error?: string) => void;
+  addEntry: (
+    documentId: string,
+    status: LogEntry["status"],
+    error?: string
+  ) => void;
+  markAborted: (lastCursor?: PageCursor) => void;
+  getEntries: () => LogEntry[];
   finalize: (options: LogOptions) => string;
   getLog: () => OperationLog;
 } {
-  const startedAt = getTimestamp();
-  const entries: LogEntry[] = [];
+  // A resumed operation keeps the start time and entries of its earlier runs
+  const startedAt = collectorOptions.startedAt ?? getTimestamp();
+  const resumedAt = collectorOptions.startedAt ? getTimestamp() : undefined;
+  const entries: LogEntry[] = [...(collectorOptions.entries ?? [])];
+  let aborted = false;
+  let lastCursor: PageCursor | undefined;
+
+  // Store conditions and update data in the shared JSON-safe format
+  const encodedConditions = conditions && encodeConditions(conditions);
+  const encodedUpdateData = updateData && encodeValue(updateData);
 
   return {
-    addEntry(documentId: string, status: "success" | "failure", error?: string) {
+    addEntry(documentId: string, status: LogEntry["status"], error?: string) {
       entries.push({
         timestamp: getTimestamp(),
         documentId,
@@ -153,21 +271,53 @@ export function createLogCollector(
       });
     },
 
+    markAborted(cursor?: PageCursor) {
+      aborted = true;
+      lastCursor = cursor;
+    },
+
+    getEntries(): LogEntry[] {
+      return entries;
+    },
+
     getLog(): OperationLog {
-      const successCount = entries.filter((e) => e.status === "success").length;
+      const overwrittenCount = entries.filter(
+        (e) => e.status === "overwritten"
+      ).length;
+      const successCount =
+        entries.filter((e) => e.status === "success").length + overwrittenCount;
       const failureCount = entries.filter((e) => e.status === "failure").length;
+      const missingCount = entries.filter((e) => e.status === "missing").length;
+      const skippedCount = entries.filter((e) => e.status === "skipped").length;
+      const conflictCount = entries.filter(
+        (e) => e.status === "conflict"
+      ).length;
 
       return {
         operation,
         collection,
+        collectionGroup: collectorOptions.collectionGroup || undefined,
         startedAt,
+        resumedAt,
         completedAt: getTimestamp(),
-        conditions,
-        updateData,
+        conditions: encodedConditions,
+        clientFilterCount: collectorOptions.clientFilterCount || undefined,
+        updateData: encodedUpdateData as SerializedMap | undefined,
+        computedUpdate: collectorOptions.computedUpdate || undefined,
+        target: collectorOptions.target || undefined,
+        source: collectorOptions.source || undefined,
+        backup: collectorOptions.backup || undefined,
+        checkpoint: collectorOptions.checkpoint || undefined,
+        aborted: aborted || undefined,
+        lastCursor,
         summary: {
-          totalCount: entries.length,
+          totalCount: successCount + failureCount + conflictCount,
           successCount,
           failureCount,
+          missingCount: missingCount > 0 ? missingCount : undefined,
+          skippedCount: skippedCount > 0 ? skippedCount : undefined,
+          conflictCount: conflictCount > 0 ? conflictCount : undefined,
+          overwrittenCount: overwrittenCount > 0 ? overwrittenCount : undefined,
         },
         entries,
       };
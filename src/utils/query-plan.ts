@@ -0,0 +1,126 @@
+/**
+ * Helpers for splitting conditions that exceed Firestore value limits
+ */
+
+import type { FilterCondition } from "../types";
+import { isCompositeCondition, uniqueValues } from "./filter";
+
+/**
+ * Maximum number of values Firestore accepts for "in" and "array-contains-any"
+ */
+export const MAX_DISJUNCTION_VALUES = 30;
+
+/**
+ * Maximum number of values Firestore accepts for "not-in"
+ */
+export const MAX_NOT_IN_VALUES = 10;
+
+/**
+ * Conditions of the sub-queries needed to run a list of conditions
+ */
+export interface ConditionPlan {
+  combinations: FilterCondition[][]; // Conditions of each sub-query
+  excluded: { field: string; values: any[] }[]; // "not-in" values to check after fetching
+  disjoint: boolean; // Whether sub-queries never match the same document
+}
+
+/**
+ * Split conditions that exceed Firestore value limits
+ * "in" and "array-contains-any" values are de-duplicated and chunked into
+ * separate sub-queries; "not-in" values beyond the limit are returned in
+ * excluded. Only one condition may be chunked, since chunking several would
+ * multiply the number of sub-queries
+ * @param conditions - Conditions of the query (all must match)
+ * @returns Sub-query conditions and values to check after fetching
+ */
+export function planConditions(
+  conditions: readonly FilterCondition[]
+): ConditionPlan {
+  let combinations: FilterCondition[][] = [[]];
+  const excluded: ConditionPlan["excluded"] = [];
+  let disjoint = true;
+  let chunkedField: string | undefined;
+
+  for (const condition of conditions) {
+    if (isCompositeCondition(condition) || !Array.isArray(condition.value)) {
+      combinations = combinations.map((c) => [...c, condition]);
+      continue;
+    }
+
+    const { field, operator, value } = condition;
+
+    // A value repeated in two chunks would match the same documents twice
+    const values =
+      operator === "in" || operator === "array-contains-any"
+        ? uniqueValues(value)
+        : value;
+
+    if (
+      (operator === "in" || operator === "array-contains-any") &&
+      values.length > MAX_DISJUNCTION_VALUES
+    ) {
+      if (chunkedField !== undefined) {
+        throw new Error(
+          `Only one "in" or "array-contains-any" condition can have more than ${MAX_DISJUNCTION_VALUES} values ("${chunkedField}" and "${field}")`
+        );
+      }
+      chunkedField = field;
+
+      const chunks: any[][] = [];
+      for (let i = 0; i < values.length; i += MAX_DISJUNCTION_VALUES) {
+        chunks.push(values.slice(i, i + MAX_DISJUNCTION_VALUES));
+      }
+      combinations = combinations.flatMap((c) =>
+        chunks.map((chunk) => [...c, { field, operator, value: chunk }])
+      );
+
+      // An array can contain values from several chunks
+      if (operator === "array-contains-any") {
+        disjoint = false;
+      }
+    } else if (operator === "not-in" && value.length > MAX_NOT_IN_VALUES) {
+      combinations = combinations.map((c) => [
+        ...c,
+        { field, operator, value: value.slice(0, MAX_NOT_IN_VALUES) },
+      ]);
+      excluded.push({ field, values: value.slice(MAX_NOT_IN_VALUES) });
+    } else {
+      const deduped =
+        values === value ? condition : { field, operator, value: values };
+      combinations = combinations.map((c) => [...c, deduped]);
+    }
+  }
+
+  return { combinations, excluded, disjoint };
+}
+
+/**
+ * Drop documents already returned by another sub-query or rejected by post filters
+ * Paths are only remembered when sub-queries can overlap, so disjoint plans
+ * keep memory bounded by the page size
+ * @param docs - Documents of one sub-query page
+ * @param disjoint - Whether sub-queries never match the same document
+ * @param postFilters - Checks every returned document must pass
+ * @param seen - Paths returned so far (updated in place)
+ * @returns Documents to process
+ */
+export function filterSubQueryDocs<T extends { ref: { path: string } }>(
+  docs: T[],
+  disjoint: boolean,
+  postFilters: ((doc: T) => boolean)[],
+  seen: Set<string>
+): T[] {
+  if (disjoint && postFilters.length === 0) {
+    return docs;
+  }
+
+  return docs.filter((doc) => {
+    if (!disjoint) {
+      if (seen.has(doc.ref.path)) {
+        return false;
+      }
+      seen.add(doc.ref.path);
+    }
+    return postFilters.every((filter) => filter(doc));
+  });
+}
@@ -0,0 +1,207 @@
+/**
+ * Retry utilities for Firestore Batch Updater
+ *
+ * Decide which failed writes are retried and how long to wait before each attempt
+ */
+
+import { FieldValue } from "firebase-admin/firestore";
+import type { DocumentData } from "firebase-admin/firestore";
+import type { RetryErrorInfo, RetryOptions, WriteErrorCode } from "../types";
+
+/**
+ * gRPC status codes by name
+ */
+const STATUS_CODES: Record<WriteErrorCode, number> = {
+  CANCELLED: 1,
+  UNKNOWN: 2,
+  INVALID_ARGUMENT: 3,
+  DEADLINE_EXCEEDED: 4,
+  NOT_FOUND: 5,
+  ALREADY_EXISTS: 6,
+  PERMISSION_DENIED: 7,
+  RESOURCE_EXHAUSTED: 8,
+  FAILED_PRECONDITION: 9,
+  ABORTED: 10,
+  OUT_OF_RANGE: 11,
+  UNIMPLEMENTED: 12,
+  INTERNAL: 13,
+  UNAVAILABLE: 14,
+  DATA_LOSS: 15,
+  UNAUTHENTICATED: 16,
+};
+
+/**
+ * Codes retried when retryableCodes is not set
+ */
+const DEFAULT_RETRYABLE_CODES: WriteErrorCode[] = [
+  "ABORTED",
+  "UNAVAILABLE",
+  "RESOURCE_EXHAUSTED",
+  "DEADLINE_EXCEEDED",
+  "INTERNAL",
+];
+
+/**
+ * Default codes after which the write may already have been applied
+ * Only idempotent writes are retried on them unless retryableCodes lists them
+ */
+const AMBIGUOUS_CODES: WriteErrorCode[] = ["DEADLINE_EXCEEDED", "INTERNAL"];
+
+/**
+ * Retry options with defaults applied
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffFactor: number;
+  jitter: number;
+  retryableCodes: Set<number>;
+  idempotentOnlyCodes: Set<number>; // Retryable codes not retried for create() or increments
+  shouldRetry?: (error: RetryErrorInfo) => boolean;
+}
+
+/**
+ * Validate retry options and apply defaults
+ * @param retry - Retry options of an operation (undefined disables retries)
+ * @returns Policy with a single attempt when retry is not set
+ */
+export function resolveRetryPolicy(retry?: RetryOptions): RetryPolicy {
+  const {
+    maxAttempts = retry ? 5 : 1,
+    initialDelayMs = 500,
+    maxDelayMs = 30000,
+    backoffFactor = 2,
+    jitter = 0.2,
+    retryableCodes = DEFAULT_RETRYABLE_CODES,
+    shouldRetry,
+  } = retry ?? {};
+
+  if (!(Number.isInteger(maxAttempts) && maxAttempts > 0)) {
+    throw new Error("retry.maxAttempts must be a positive integer");
+  }
+  if (!(initialDelayMs >= 0) || !(maxDelayMs >= 0)) {
+    throw new Error("retry delays must be non-negative numbers");
+  }
+  if (!(backoffFactor >= 1)) {
+    throw new Error("retry.backoffFactor must be at least 1");
+  }
+  if (!(jitter >= 0 && jitter <= 1)) {
+    throw new Error("retry.jitter must be between 0 and 1");
+  }
+  for (const code of retryableCodes) {
+    if (!(code in STATUS_CODES)) {
+      throw new Error(`Invalid retryable code: "${code}"`);
+    }
+  }
+  if (shouldRetry !== undefined && typeof shouldRetry !== "function") {
+    throw new Error("retry.shouldRetry must be a function");
+  }
+
+  return {
+    maxAttempts,
+    initialDelayMs,
+    maxDelayMs,
+    backoffFactor,
+    jitter,
+    retryableCodes: new Set(retryableCodes.map((code) => STATUS_CODES[code])),
+    idempotentOnlyCodes: new Set(
+      retry?.retryableCodes === undefined
+        ? AMBIGUOUS_CODES.map((code) => STATUS_CODES[code])
+        : []
+    ),
+    shouldRetry,
+  };
+}
+
+/**
+ * Check whether a failed write is attempted again
+ * A shouldRetry predicate that throws counts as "do not retry"
+ * @param policy - Retry policy of the operation
+ * @param error - Failed write, without the retryable flag
+ * @param idempotent - Whether applying the write twice has the same effect as once (default: true)
+ * @returns True if attempts remain and the error is retryable
+ */
+export function shouldRetryWrite(
+  policy: RetryPolicy,
+  error: Omit<RetryErrorInfo, "retryable">,
+  idempotent = true
+): boolean {
+  if (error.attempt >= policy.maxAttempts) {
+    return false;
+  }
+
+  const retryable =
+    error.code !== undefined &&
+    policy.retryableCodes.has(error.code) &&
+    (idempotent || !policy.idempotentOnlyCodes.has(error.code));
+  if (!policy.shouldRetry) {
+    return retryable;
+  }
+
+  try {
+    return policy.shouldRetry({ ...error, retryable }) === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether writing data a second time leaves the document as the first write did
+ * FieldValue.increment() adds its operand again on every write
+ * @param data - Data of a set() or update()
+ * @returns False if a field at any depth is an increment
+ */
+export function isIdempotentData(data: DocumentData): boolean {
+  return Object.values(data).every((value) => {
+    if (value instanceof FieldValue) {
+      const { operand } = value as { operand?: unknown };
+      return !(
+        typeof operand === "number" &&
+        value.isEqual(FieldValue.increment(operand))
+      );
+    }
+    if (
+      value !== null &&
+      typeof value === "object" &&
+      Object.getPrototypeOf(value) === Object.prototype
+    ) {
+      return isIdempotentData(value);
+    }
+    return true;
+  });
+}
+
+/**
+ * Delay before the next attempt: exponential backoff with random jitter
+ * @param policy - Retry policy of the operation
+ * @param attempt - Attempts made so far (1 after the first try)
+ * @returns Delay in milliseconds
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  const base = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt - 1)
+  );
+  const variation = base * policy.jitter * (Math.random() * 2 - 1);
+
+  return Math.max(0, Math.round(base + variation));
+}
+
+/**
+ * Wait for a number of milliseconds
+ * @param ms - Delay in milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Get the gRPC status code of a Firestore error
+ * @param error - Error thrown or reported by Firestore
+ * @returns Numeric code, or undefined for other errors
+ */
+export function getErrorCode(error: unknown): number | undefined {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "number" ? code : undefined;
+}
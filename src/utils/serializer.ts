@@ -0,0 +1,270 @@
+/**
+ * JSON serialization utilities for Firestore Batch Updater
+ *
+ * Values that plain JSON cannot represent are encoded as tagged objects
+ * (e.g., { "__type": "timestamp", "seconds": 0, "nanoseconds": 0 })
+ * so they can be restored with their original type
+ */
+
+import {
+  Timestamp,
+  GeoPoint,
+  DocumentReference,
+  FieldValue,
+} from "firebase-admin/firestore";
+import type { Firestore } from "firebase-admin/firestore";
+import type {
+  FilterCondition,
+  SerializedValue,
+  SerializedMap,
+  SerializedTypedValue,
+} from "../types";
+import { isCompositeCondition } from "./filter";
+
+/**
+ * Key used to tag encoded values
+ */
+const TYPE_KEY = "__type";
+
+/**
+ * Encode a Firestore value into a JSON-safe value
+ * Map fields set to undefined are left out; undefined anywhere else cannot be stored and throws
+ * @param value - Value to encode (Timestamp, Date, GeoPoint, DocumentReference, FieldValue, bytes, maps, arrays, primitives)
+ * @returns JSON-safe encoded value
+ */
+export function encodeValue(value: any): SerializedValue {
+  if (value === null) {
+    return null;
+  }
+  if (value === undefined) {
+    throw new Error("Cannot serialize undefined");
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value)
+      ? value
+      : { [TYPE_KEY]: "number", value: String(value) };
+  }
+  if (typeof value === "string" || typeof value === "boolean") {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+  if (value instanceof Timestamp) {
+    return {
+      [TYPE_KEY]: "timestamp",
+      seconds: value.seconds,
+      nanoseconds: value.nanoseconds,
+    };
+  }
+  if (value instanceof Date) {
+    return { [TYPE_KEY]: "date", value: value.toISOString() };
+  }
+  if (value instanceof GeoPoint) {
+    return {
+      [TYPE_KEY]: "geopoint",
+      latitude: value.latitude,
+      longitude: value.longitude,
+    };
+  }
+  if (value instanceof DocumentReference) {
+    return { [TYPE_KEY]: "reference", path: value.path };
+  }
+  if (value instanceof Uint8Array) {
+    return {
+      [TYPE_KEY]: "bytes",
+      base64: Buffer.from(value).toString("base64"),
+    };
+  }
+  if (value instanceof FieldValue) {
+    return encodeFieldValue(value);
+  }
+  if (typeof value === "object") {
+    const map: SerializedMap = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) {
+        map[key] = encodeValue(item);
+      }
+    }
+
+    // Escape plain maps that happen to use the tag key
+    return TYPE_KEY in map ? { [TYPE_KEY]: "map", value: map } : map;
+  }
+
+  throw new Error(`Cannot serialize value of type ${typeof value}`);
+}
+
+/**
+ * Decode a value produced by encodeValue()
+ * @param value - Encoded value
+ * @param firestore - Firestore instance used to restore document references
+ * @returns Decoded Firestore value
+ */
+export function decodeValue(value: SerializedValue, firestore: Firestore): any {
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => decodeValue(item, firestore));
+  }
+
+  if (TYPE_KEY in value) {
+    return decodeTypedValue(value as SerializedTypedValue, firestore);
+  }
+
+  return decodeMap(value, firestore);
+}
+
+/**
+ * Encode the values of a condition tree
+ * @param conditions - Conditions or nested groups
+ * @returns Conditions with JSON-safe values
+ */
+export function encodeConditions(
+  conditions: readonly FilterCondition[]
+): FilterCondition[] {
+  return conditions.map((condition) =>
+    isCompositeCondition(condition)
+      ? {
+          type: condition.type,
+          conditions: encodeConditions(condition.conditions),
+        }
+      : {
+          field: condition.field,
+          operator: condition.operator,
+          value: encodeValue(condition.value),
+        }
+  );
+}
+
+/**
+ * Decode the values of a condition tree produced by encodeConditions()
+ * @param conditions - Conditions with encoded values
+ * @param firestore - Firestore instance used to restore document references
+ * @returns Conditions with Firestore values
+ */
+export function decodeConditions(
+  conditions: readonly FilterCondition[],
+  firestore: Firestore
+): FilterCondition[] {
+  return conditions.map((condition) =>
+    isCompositeCondition(condition)
+      ? {
+          type: condition.type,
+          conditions: decodeConditions(condition.conditions, firestore),
+        }
+      : {
+          field: condition.field,
+          operator: condition.operator,
+          value: decodeValue(condition.value, firestore),
+        }
+  );
+}
+
+/**
+ * Arguments the SDK keeps on increment and array transforms
+ * Only read as candidates; isEqual() against a rebuilt sentinel confirms them
+ * @private
+ */
+interface FieldTransformArguments {
+  operand?: unknown;
+  elements?: unknown;
+}
+
+/**
+ * Encode a FieldValue sentinel
+ * @private
+ */
+function encodeFieldValue(value: FieldValue): SerializedTypedValue {
+  if (value.isEqual(FieldValue.delete())) {
+    return { [TYPE_KEY]: "fieldValue", method: "delete", args: [] };
+  }
+  if (value.isEqual(FieldValue.serverTimestamp())) {
+    return { [TYPE_KEY]: "fieldValue", method: "serverTimestamp", args: [] };
+  }
+
+  const { operand, elements } = value as FieldTransformArguments;
+
+  if (
+    typeof operand === "number" &&
+    value.isEqual(FieldValue.increment(operand))
+  ) {
+    return { [TYPE_KEY]: "fieldValue", method: "increment", args: [operand] };
+  }
+  if (Array.isArray(elements)) {
+    if (value.isEqual(FieldValue.arrayUnion(...elements))) {
+      return {
+        [TYPE_KEY]: "fieldValue",
+        method: "arrayUnion",
+        args: elements.map(encodeValue),
+      };
+    }
+    if (value.isEqual(FieldValue.arrayRemove(...elements))) {
+      return {
+        [TYPE_KEY]: "fieldValue",
+        method: "arrayRemove",
+        args: elements.map(encodeValue),
+      };
+    }
+  }
+
+  throw new Error("Cannot serialize this FieldValue");
+}
+
+/**
+ * Decode the entries of an encoded map
+ * @private
+ */
+function decodeMap(
+  value: SerializedMap,
+  firestore: Firestore
+): Record<string, any> {
+  const map: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    map[key] = decodeValue(item, firestore);
+  }
+  return map;
+}
+
+/**
+ * Decode a tagged value
+ * @private
+ */
+function decodeTypedValue(
+  value: SerializedTypedValue,
+  firestore: Firestore
+): any {
+  switch (value[TYPE_KEY]) {
+    case "number":
+      return Number(value.value);
+    case "timestamp":
+      return new Timestamp(value.seconds, value.nanoseconds);
+    case "date":
+      return new Date(value.value);
+    case "geopoint":
+      return new GeoPoint(value.latitude, value.longitude);
+    case "reference":
+      return firestore.doc(value.path);
+    case "bytes":
+      return Buffer.from(value.base64, "base64");
+    case "map":
+      return decodeMap(value.value, firestore);
+    case "fieldValue": {
+      const args = value.args.map((arg) => decodeValue(arg, firestore));
+      switch (value.method) {
+        case "delete":
+          return FieldValue.delete();
+        case "serverTimestamp":
+          return FieldValue.serverTimestamp();
+        case "increment":
+          return FieldValue.increment(args[0]);
+        case "arrayUnion":
+          return FieldValue.arrayUnion(...args);
+        case "arrayRemove":
+          return FieldValue.arrayRemove(...args);
+      }
+    }
+  }
+
+  throw new Error(`Unknown serialized value: ${JSON.stringify(value)}`);
+}
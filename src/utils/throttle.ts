@@ -0,0 +1,163 @@
+/**
+ * Throttling utilities for Firestore Batch Updater
+ *
+ * Limit how fast an operation reads and writes, on top of BulkWriter's own ramp-up
+ */
+
+import type { BulkWriterOptions } from "firebase-admin/firestore";
+import type { ThrottleOptions } from "../types";
+import { sleep } from "./retry";
+
+/**
+ * Rate and concurrency limiter shared by the writes and page reads of one or more operations
+ *
+ * Pass an instance as the throttle option to change its limits while the operation runs:
+ * the library limiter applies new limits right away, BulkWriter settings from the next page on.
+ * Passing the same instance to several operations makes them share one budget.
+ */
+export class Throttle {
+  private current: ThrottleOptions;
+  private nextSlot = 0; // Time (ms) the next operation may start
+  private inFlight = 0;
+  private waiters: (() => void)[] = [];
+
+  /**
+   * Create a limiter
+   * @param limits - Operations per second and in-flight writes (default: no limits)
+   */
+  constructor(limits: ThrottleOptions = {}) {
+    this.current = validateThrottleOptions({ ...limits });
+  }
+
+  /**
+   * Current limits
+   */
+  get limits(): Readonly<ThrottleOptions> {
+    return { ...this.current };
+  }
+
+  /**
+   * Change the limits, e.g. while an operation is running
+   * Fields that are not given keep their value; pass undefined to remove a limit
+   * @param limits - Limits to change
+   */
+  setLimits(limits: ThrottleOptions): void {
+    this.current = validateThrottleOptions({ ...this.current, ...limits });
+
+    // Waiting writes may fit under a raised in-flight limit
+    this.wake();
+  }
+
+  /**
+   * Options for a new BulkWriter
+   * BulkWriter starts at initialOpsPerSecond (default: 500) and grows by 50%
+   * every 5 minutes up to maxOpsPerSecond (the 500/50/5 rule)
+   * @returns BulkWriter options with the throttling settings
+   */
+  bulkWriterOptions(): BulkWriterOptions {
+    const { initialOpsPerSecond, maxOpsPerSecond } = this.current;
+
+    return {
+      throttling: {
+        ...(initialOpsPerSecond !== undefined && { initialOpsPerSecond }),
+        ...(maxOpsPerSecond !== undefined && {
+          maxOpsPerSecond: Math.max(1, Math.floor(maxOpsPerSecond)),
+        }),
+      },
+    };
+  }
+
+  /**
+   * Wait until count more operations fit under maxOpsPerSecond
+   * Operations are spread evenly: each one delays the next by 1 / maxOpsPerSecond seconds
+   * @param count - Number of operations (e.g., documents in a page)
+   */
+  async pace(count = 1): Promise<void> {
+    const rate = this.current.maxOpsPerSecond;
+    if (rate === undefined) {
+      return;
+    }
+
+    const now = Date.now();
+    const start = Math.max(now, this.nextSlot);
+    this.nextSlot = start + (count * 1000) / rate;
+
+    if (start > now) {
+      await sleep(start - now);
+    }
+  }
+
+  /**
+   * Wait for a free in-flight slot and the rate limit, then take the slot
+   * Every acquire() must be followed by release() once the write has finished
+   * @param flush - Sends writes that are queued but not sent yet, called before waiting for a slot
+   */
+  async acquire(flush: () => void): Promise<void> {
+    while (
+      this.current.maxInFlight !== undefined &&
+      this.inFlight >= this.current.maxInFlight
+    ) {
+      flush();
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+
+    this.inFlight++;
+    await this.pace();
+  }
+
+  /**
+   * Free the slot of a finished write
+   */
+  release(): void {
+    this.inFlight--;
+    this.wake();
+  }
+
+  /**
+   * Let every waiting acquire() check the limit again
+   * @private
+   */
+  private wake(): void {
+    for (const resolve of this.waiters.splice(0)) {
+      resolve();
+    }
+  }
+}
+
+/**
+ * Validate throttle limits
+ * @param limits - Throttle options of an operation or a Throttle
+ * @returns The same limits
+ */
+export function validateThrottleOptions(
+  limits: ThrottleOptions
+): ThrottleOptions {
+  const { maxOpsPerSecond, initialOpsPerSecond, maxInFlight } = limits;
+
+  if (maxOpsPerSecond !== undefined && !(maxOpsPerSecond > 0)) {
+    throw new Error("throttle.maxOpsPerSecond must be a positive number");
+  }
+  if (
+    initialOpsPerSecond !== undefined &&
+    !(Number.isInteger(initialOpsPerSecond) && initialOpsPerSecond > 0)
+  ) {
+    throw new Error("throttle.initialOpsPerSecond must be a positive integer");
+  }
+  if (
+    initialOpsPerSecond !== undefined &&
+    maxOpsPerSecond !== undefined &&
+    initialOpsPerSecond > maxOpsPerSecond
+  ) {
+    throw new Error(
+      "throttle.initialOpsPerSecond must not exceed throttle.maxOpsPerSecond"
+    );
+  }
+  if (
+    maxInFlight !== undefined &&
+    !(Number.isInteger(maxInFlight) && maxInFlight > 0)
+  ) {
+    throw new Error("throttle.maxInFlight must be a positive integer");
+  }
+
+  return limits;
+}
@@ -0,0 +1,411 @@
+import { describe, expect, it } from "vitest";
+import { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater, and, or } from "../src";
+
+// Options are validated before anything is read, so no Firestore server is needed
+const firestore = new Firestore({ projectId: "batch-updater-test" });
+const users = new BatchUpdater(firestore).collection("users");
+
+describe("delete() options", () => {
+  it("refuses an invalid maxDepth", async () => {
+    await expect(
+      users.delete({ recursive: true, maxDepth: -1 })
+    ).rejects.toThrow("maxDepth must be a non-negative integer");
+    await expect(
+      users.delete({ recursive: true, maxDepth: 1.5 })
+    ).rejects.toThrow("maxDepth must be a non-negative integer");
+  });
+
+  it("refuses maxDepth without recursive", async () => {
+    await expect(users.delete({ maxDepth: 1 })).rejects.toThrow(
+      "maxDepth requires recursive: true"
+    );
+  });
+});
+
+describe("precondition options", () => {
+  it("refuses an unknown precondition", async () => {
+    await expect(
+      users.update({ a: 1 }, { precondition: "exists" as "unchanged" })
+    ).rejects.toThrow('Invalid precondition option: "exists"');
+  });
+
+  it("refuses an invalid conflictRetries", async () => {
+    await expect(
+      users.update({ a: 1 }, { precondition: "unchanged", conflictRetries: -1 })
+    ).rejects.toThrow("conflictRetries must be a non-negative integer");
+    await expect(users.delete({ conflictRetries: 0.5 })).rejects.toThrow(
+      "conflictRetries must be a non-negative integer"
+    );
+  });
+});
+
+describe("collectionGroup()", () => {
+  const orders = new BatchUpdater(firestore).collectionGroup("orders");
+
+  it("refuses a collection path", () => {
+    expect(() =>
+      new BatchUpdater(firestore).collectionGroup("users/u1/orders")
+    ).toThrow('Collection group ID must not contain "/": "users/u1/orders"');
+  });
+
+  it("refuses writes that need a single parent", async () => {
+    await expect(orders.create([{ data: { a: 1 } }])).rejects.toThrow(
+      "create() is not supported for collection groups"
+    );
+    await expect(orders.upsert([{ id: "o1", data: { a: 1 } }])).rejects.toThrow(
+      "upsert() with documents is not supported for collection groups"
+    );
+  });
+
+  it("refuses document paths outside the group", async () => {
+    await expect(
+      orders.docs(["users/u1/items/o1"]).update({ a: 1 })
+    ).rejects.toThrow(
+      'Document path "users/u1/items/o1" is not in collection group "orders"'
+    );
+  });
+});
+
+describe("where() condition groups", () => {
+  it("adds whereAny() conditions as one OR group", () => {
+    const query = users
+      .where("active", "==", true)
+      .whereAny([
+        { field: "age", operator: "<", value: 18 },
+        and(
+          { field: "plan", operator: "==", value: "free" },
+          { field: "credits", operator: "==", value: 0 }
+        ),
+      ]);
+
+    expect(query.toJSON().where).toEqual([
+      { field: "active", operator: "==", value: true },
+      {
+        type: "or",
+        conditions: [
+          { field: "age", operator: "<", value: 18 },
+          {
+            type: "and",
+            conditions: [
+              { field: "plan", operator: "==", value: "free" },
+              { field: "credits", operator: "==", value: 0 },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("copies groups so later changes by the caller are ignored", () => {
+    const plans = ["free", "trial"];
+    const group = or({ field: "plan", operator: "in", value: plans });
+    const query = users.where(group);
+    plans.push("pro");
+    group.conditions.push({ field: "age", operator: "<", value: 18 });
+
+    expect(query.toJSON().where).toEqual([
+      {
+        type: "or",
+        conditions: [
+          { field: "plan", operator: "in", value: ["free", "trial"] },
+        ],
+      },
+    ]);
+  });
+
+  it("refuses an empty whereAny()", () => {
+    expect(() => users.whereAny([])).toThrow(
+      "or() requires at least one condition"
+    );
+  });
+});
+
+describe("docs()", () => {
+  it("refuses an empty or invalid ID list", () => {
+    expect(() => users.docs([])).toThrow(
+      "Document IDs array must be non-empty"
+    );
+    expect(() => users.docs(["u1", ""])).toThrow(
+      "Each document ID must be a non-empty string"
+    );
+  });
+
+  it("keeps each ID once", () => {
+    expect(users.docs(["u1", "u2", "u1"]).toJSON().docs).toEqual(["u1", "u2"]);
+  });
+
+  it("refuses query conditions", async () => {
+    const byId = users.docs(["u1"]);
+
+    for (const query of [
+      byId.where("active", "==", true),
+      byId.orderBy("name"),
+      byId.limit(1),
+    ]) {
+      await expect(query.update({ a: 1 })).rejects.toThrow(
+        "docs() cannot be combined with where(), orderBy() or limit()"
+      );
+    }
+  });
+
+  it("refuses paths in a collection", async () => {
+    await expect(users.docs(["u1/items/i1"]).delete()).rejects.toThrow(
+      'Document ID must not contain "/": "u1/items/i1"'
+    );
+  });
+});
+
+describe("filter()", () => {
+  const adults = users.filter((data) => data.age >= 18);
+
+  it("refuses to serialize queries with predicates", () => {
+    expect(() => adults.toJSON()).toThrow(
+      "Queries with filter() predicates cannot be serialized"
+    );
+  });
+
+  it("refuses checkpoints", async () => {
+    await expect(
+      adults.update(
+        { a: 1 },
+        { batchSize: 10, checkpoint: { path: "./checkpoint.ndjson" } }
+      )
+    ).rejects.toThrow("checkpoint cannot be used with filter() predicates");
+  });
+});
+
+describe("immutable queries", () => {
+  it("leaves the query a method was called on unchanged", () => {
+    const active = users.where("active", "==", true);
+    const sorted = active.orderBy("name").limit(10);
+    active.where("age", ">=", 18);
+
+    expect(active).not.toBe(users);
+    expect(users.toJSON()).toEqual({ version: 1, collection: "users" });
+    expect(active.toJSON()).toEqual({
+      version: 1,
+      collection: "users",
+      where: [{ field: "active", operator: "==", value: true }],
+    });
+    expect(sorted.toJSON()).toEqual({
+      version: 1,
+      collection: "users",
+      where: [{ field: "active", operator: "==", value: true }],
+      orderBy: [{ field: "name", direction: "asc" }],
+      limit: 10,
+    });
+  });
+
+  it("copies value lists passed to where()", () => {
+    const ids = ["u1", "u2"];
+    const query = users.where("id", "in", ids);
+    ids.push("u3");
+
+    expect(query.toJSON().where).toEqual([
+      { field: "id", operator: "in", value: ["u1", "u2"] },
+    ]);
+  });
+
+  it("starts from an empty query when the collection changes", () => {
+    const orders = users
+      .where("active", "==", true)
+      .limit(5)
+      .collection("orders");
+
+    expect(orders.toJSON()).toEqual({ version: 1, collection: "orders" });
+    expect(users.docs(["u1"]).collectionGroup("orders").toJSON()).toEqual({
+      version: 1,
+      collectionGroup: "orders",
+    });
+  });
+});
+
+describe("aggregate()", () => {
+  it("refuses an empty spec", async () => {
+    await expect(users.aggregate({})).rejects.toThrow(
+      "Aggregate spec must have at least one aggregation"
+    );
+  });
+
+  it("refuses a query without a collection", async () => {
+    await expect(new BatchUpdater(firestore).count()).rejects.toThrow(
+      "Collection path is required"
+    );
+  });
+});
+
+describe("getFields() / streamFields()", () => {
+  it("refuses empty field paths", async () => {
+    await expect(users.getFields([])).rejects.toThrow(
+      "Field paths array must be non-empty"
+    );
+    await expect(users.getFields(["name", ""])).rejects.toThrow(
+      "Each field path must be a non-empty string"
+    );
+    await expect(users.streamFields([]).next()).rejects.toThrow(
+      "Field paths array must be non-empty"
+    );
+  });
+});
+
+describe("transforms", () => {
+  it("refuses a transform that is not a function", async () => {
+    await expect(
+      users.updateWith({ a: 1 } as unknown as () => null)
+    ).rejects.toThrow("Transform must be a function");
+  });
+
+  it("refuses checkpoints, which cannot store the transform", async () => {
+    await expect(
+      users.upsertWith(() => ({ a: 1 }), {
+        batchSize: 10,
+        checkpoint: { path: "./checkpoint.ndjson" },
+      })
+    ).rejects.toThrow("checkpoint is not supported with a transform");
+  });
+});
+
+describe("upsert() with documents", () => {
+  it("refuses invalid document lists", async () => {
+    await expect(users.upsert([])).rejects.toThrow(
+      "Documents array must be non-empty"
+    );
+    await expect(users.upsert([{ data: { a: 1 } }])).rejects.toThrow(
+      "Each document must have an ID for upsert()"
+    );
+    await expect(
+      users.upsert([
+        { id: "u1", data: { a: 1 } },
+        { id: "u1", data: { a: 2 } },
+      ])
+    ).rejects.toThrow('Duplicate document ID: "u1"');
+    await expect(users.upsert([{ id: "u1", data: {} }])).rejects.toThrow(
+      "Each document must have valid data"
+    );
+  });
+
+  it("refuses checkpoints", async () => {
+    await expect(
+      users.upsert([{ id: "u1", data: { a: 1 } }], {
+        batchSize: 10,
+        checkpoint: { path: "./checkpoint.ndjson" },
+      })
+    ).rejects.toThrow(
+      "checkpoint is not supported for upsert() with documents"
+    );
+  });
+});
+
+describe("create() options", () => {
+  it("refuses an unknown onConflict mode", async () => {
+    await expect(
+      users.create([{ id: "u1", data: { a: 1 } }], {
+        onConflict: "replace" as "overwrite",
+      })
+    ).rejects.toThrow('Invalid onConflict option: "replace"');
+  });
+
+  it("refuses invalid document lists", async () => {
+    await expect(users.create([])).rejects.toThrow(
+      "Documents array must be non-empty"
+    );
+    await expect(users.create([{ data: {} }])).rejects.toThrow(
+      "Each document must have valid data"
+    );
+  });
+});
+
+describe("softDelete()", () => {
+  it("requires an archive collection", async () => {
+    await expect(
+      users.softDelete({} as { archiveCollection: string })
+    ).rejects.toThrow("archiveCollection must be a non-empty string");
+    await expect(users.softDelete({ archiveCollection: "" })).rejects.toThrow(
+      "archiveCollection must be a non-empty string"
+    );
+  });
+});
+
+describe("atomic mode", () => {
+  const documents = (count: number) =>
+    Array.from({ length: count }, (_, i) => ({
+      id: `u${i}`,
+      data: { index: i },
+    }));
+
+  it("refuses more writes than one batch can hold", async () => {
+    await expect(
+      users.create(documents(501), { atomic: true })
+    ).rejects.toThrow(
+      "Atomic mode supports at most 500 documents, but 501 would be written. Narrow the query or run without atomic."
+    );
+    await expect(
+      users.upsert(documents(501), { atomic: true })
+    ).rejects.toThrow("Atomic mode supports at most 500 documents");
+  });
+
+  it("refuses checkpoints", async () => {
+    await expect(
+      users.update(
+        { a: 1 },
+        {
+          atomic: true,
+          batchSize: 10,
+          checkpoint: { path: "./checkpoint.ndjson" },
+        }
+      )
+    ).rejects.toThrow("checkpoint cannot be combined with atomic");
+  });
+});
+
+describe("signal / onAbort", () => {
+  const aborted = () => {
+    const controller = new AbortController();
+    controller.abort();
+    return controller.signal;
+  };
+
+  it("refuses invalid options", async () => {
+    await expect(
+      users.update({ a: 1 }, { signal: {} as AbortSignal })
+    ).rejects.toThrow("signal must be an AbortSignal");
+    await expect(users.delete({ onAbort: "stop" as "flush" })).rejects.toThrow(
+      'Invalid onAbort option: "stop"'
+    );
+  });
+
+  // Nothing is sent, so these run without a Firestore server
+  it.each(["flush", "abandon"] as const)(
+    "writes nothing once aborted (onAbort: %s)",
+    async (onAbort) => {
+      const documents = [{ id: "u1", data: { a: 1 } }];
+
+      for (const atomic of [false, true]) {
+        const options = { signal: aborted(), onAbort, atomic };
+        const created = await users.create(documents, options);
+        const upserted = await users.upsert(documents, options);
+
+        expect(created).toMatchObject({
+          aborted: true,
+          successCount: 0,
+          createdIds: [],
+        });
+        expect(upserted).toMatchObject({ aborted: true, successCount: 0 });
+      }
+    }
+  );
+
+  it("stops a query before its first page", async () => {
+    const result = await users
+      .docs(["u1", "u2"])
+      .update({ a: 1 }, { signal: aborted(), batchSize: 1 });
+
+    expect(result).toMatchObject({
+      aborted: true,
+      successCount: 0,
+      totalCount: 2,
+    });
+    expect(result.lastCursor).toBeUndefined();
+  });
+});
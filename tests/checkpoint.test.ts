@@ -0,0 +1,175 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../src";
+import type { CheckpointRef, DeleteResult } from "../src";
+
+// docs() queries with an aborted signal are counted without reading, so
+// checkpoint files can be written and resumed without a Firestore server
+const firestore = new Firestore({ projectId: "checkpoint-test" });
+const updater = new BatchUpdater(firestore);
+const users = updater.collection("users");
+
+const aborted = () => {
+  const controller = new AbortController();
+  controller.abort();
+  return controller.signal;
+};
+
+/**
+ * Progress line of a finished page of a docs() query
+ */
+function page(docOffset: number, succeededIds: string[]): string {
+  return (
+    JSON.stringify({
+      cursor: { queryIndex: 0, docOffset, readCount: docOffset },
+      savedAt: new Date().toISOString(),
+      processedCount: docOffset,
+      successCount: docOffset,
+      failureCount: 0,
+      skippedCount: 0,
+      retriedCount: 0,
+      succeededIds,
+      failedDocIds: [],
+      missingDocIds: [],
+      conflictedDocIds: [],
+    }) + "\n"
+  );
+}
+
+describe("checkpoint files", () => {
+  let directory: string;
+  let checkpointPath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoint-"));
+    checkpointPath = path.join(directory, "run.ndjson");
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const lines = () => fs.readFileSync(checkpointPath, "utf8").split("\n");
+
+  // Start a delete of u1 and u2 that stops before its first page
+  const start = async (): Promise<CheckpointRef> => {
+    const result = await users.docs(["u1", "u2"]).delete({
+      batchSize: 1,
+      checkpoint: { path: checkpointPath },
+      signal: aborted(),
+    });
+    expect(result.aborted).toBe(true);
+    return result.checkpointRef!;
+  };
+
+  it("starts with a header line holding the operation", async () => {
+    const ref = await start();
+
+    expect(ref).toEqual({ type: "file", path: checkpointPath });
+    expect(lines()).toHaveLength(2);
+    expect(JSON.parse(lines()[0])).toEqual({
+      checkpoint: 1,
+      operation: {
+        version: 1,
+        collection: "users",
+        docs: ["u1", "u2"],
+        operation: "delete",
+        options: { batchSize: 1 },
+      },
+      startedAt: expect.any(String),
+    });
+  });
+
+  it("refuses to overwrite an existing file", async () => {
+    await start();
+
+    await expect(start()).rejects.toThrow(
+      `Checkpoint file already exists: "${checkpointPath}"`
+    );
+  });
+
+  it("folds saved pages into the resumed result and marks it complete", async () => {
+    const ref = await start();
+    fs.appendFileSync(checkpointPath, page(1, ["u1"]) + page(2, ["u2"]));
+
+    const result = (await updater.resume(ref)) as DeleteResult;
+
+    expect(result.successCount).toBe(2);
+    expect(result.totalCount).toBe(2);
+    expect(result.deletedIds).toEqual(["u1", "u2"]);
+    expect(JSON.parse(lines()[3])).toEqual({
+      completedAt: expect.any(String),
+    });
+    await expect(updater.resume(ref)).rejects.toThrow(
+      `Checkpoint is already complete: "${checkpointPath}"`
+    );
+  });
+
+  it("drops a last line that was cut off while it was appended", async () => {
+    const ref = await start();
+    const cutOff = page(2, ["u1", "u2"]);
+    fs.appendFileSync(
+      checkpointPath,
+      page(1, ["u1"]) + cutOff.slice(0, cutOff.length - 10)
+    );
+
+    // u2 was not saved, so it stays pending; the abort stops before it
+    const result = (await updater.resume(ref, {
+      signal: aborted(),
+    })) as DeleteResult;
+
+    expect(result.aborted).toBe(true);
+    expect(result.deletedIds).toEqual(["u1"]);
+    expect(lines()).toHaveLength(3);
+    expect(lines()[2]).toBe("");
+  });
+
+  it("refuses files that are not checkpoints", async () => {
+    await expect(
+      updater.resume({ type: "file", path: checkpointPath })
+    ).rejects.toThrow(`Checkpoint not found: "${checkpointPath}"`);
+
+    fs.writeFileSync(checkpointPath, '{"records":1}\n');
+    await expect(
+      updater.resume({ type: "file", path: checkpointPath })
+    ).rejects.toThrow(`Not a checkpoint file: "${checkpointPath}"`);
+  });
+
+  it("reports the line of an invalid record", async () => {
+    const ref = await start();
+    fs.appendFileSync(checkpointPath, page(1, ["u1"]) + "{oops\n");
+
+    await expect(updater.resume(ref)).rejects.toThrow(
+      "Invalid checkpoint record on line 3"
+    );
+  });
+});
+
+describe("checkpoint options", () => {
+  it("refuses invalid checkpoint options", async () => {
+    await expect(
+      users.update({ a: 1 }, { batchSize: 10, checkpoint: null as never })
+    ).rejects.toThrow("Invalid checkpoint option");
+    await expect(
+      users.update({ a: 1 }, { batchSize: 10, checkpoint: { path: "" } })
+    ).rejects.toThrow("Checkpoint path must be a non-empty string");
+    await expect(
+      users.delete({ batchSize: 10, checkpoint: { document: "" } })
+    ).rejects.toThrow("Checkpoint document must be a non-empty string");
+  });
+
+  it("requires batchSize", async () => {
+    await expect(
+      users.update({ a: 1 }, { checkpoint: { path: "./checkpoint.ndjson" } })
+    ).rejects.toThrow("checkpoint requires batchSize");
+  });
+
+  it("refuses an invalid checkpoint reference", async () => {
+    await expect(
+      updater.resume({ type: "memory", path: "x" } as unknown as CheckpointRef)
+    ).rejects.toThrow("Invalid checkpoint reference");
+  });
+});
@@ -0,0 +1,97 @@
+import { beforeAll, expect, it } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import {
+  countDocs,
+  createFirestore,
+  describeEmulator,
+  seed,
+  uniqueCollection,
+} from "./helpers";
+
+describeEmulator("abort signal", { timeout: 60000 }, () => {
+  let firestore: Firestore;
+
+  beforeAll(() => {
+    firestore = createFirestore();
+  });
+
+  it("stops an update before reading when the signal is already aborted", async () => {
+    const collection = uniqueCollection("abort-before");
+    await seed(firestore, collection, 5);
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .update({ touched: true }, { signal: AbortSignal.abort() });
+
+    expect(result.aborted).toBe(true);
+    expect(result.successCount).toBe(0);
+    const touched = await firestore
+      .collection(collection)
+      .where("touched", "==", true)
+      .get();
+    expect(touched.empty).toBe(true);
+  });
+
+  it("finishes the page in progress and reports the cursor after it", async () => {
+    const collection = uniqueCollection("abort-paginated");
+    await seed(firestore, collection, 30);
+    const controller = new AbortController();
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .update(
+        { touched: true },
+        {
+          batchSize: 10,
+          signal: controller.signal,
+          onProgress: () => controller.abort(),
+        }
+      );
+
+    expect(result.aborted).toBe(true);
+    expect(result.successCount).toBe(10);
+    expect(result.lastCursor).toMatchObject({
+      queryIndex: 0,
+      lastDoc: `${collection}/d0009`,
+      readCount: 10,
+    });
+    const touched = await firestore
+      .collection(collection)
+      .where("touched", "==", true)
+      .get();
+    expect(touched.size).toBe(10);
+  });
+
+  it("writes nothing from create() when the signal is already aborted", async () => {
+    const collection = uniqueCollection("abort-create-before");
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .create([{ id: "a", data: { a: 1 } }], { signal: AbortSignal.abort() });
+
+    expect(result.aborted).toBe(true);
+    expect(result.successCount).toBe(0);
+    expect(await countDocs(firestore, collection)).toBe(0);
+  });
+
+  it("stops create() between chunks of 500", async () => {
+    const collection = uniqueCollection("abort-create");
+    const documents = Array.from({ length: 1200 }, (_, i) => ({
+      id: `d${String(i).padStart(4, "0")}`,
+      data: { index: i },
+    }));
+    const controller = new AbortController();
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .create(documents, {
+        signal: controller.signal,
+        onProgress: () => controller.abort(),
+      });
+
+    expect(result.aborted).toBe(true);
+    expect(result.successCount).toBe(500);
+    expect(await countDocs(firestore, collection)).toBe(500);
+  });
+});
@@ -0,0 +1,68 @@
+import { beforeAll, expect, it } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import { createFirestore, describeEmulator, uniqueCollection } from "./helpers";
+
+describeEmulator(
+  "count() / sum() / average() / aggregate()",
+  { timeout: 60000 },
+  () => {
+    let firestore: Firestore;
+    let collection: string;
+
+    beforeAll(async () => {
+      firestore = createFirestore();
+      collection = uniqueCollection("accounts");
+      const accounts: Record<string, Record<string, any>> = {
+        a: { plan: "pro", balance: 10 },
+        b: { plan: "pro", balance: 30 },
+        c: { plan: "free", balance: "n/a" },
+        d: { plan: "free" },
+      };
+      for (const [id, data] of Object.entries(accounts)) {
+        await firestore.doc(`${collection}/${id}`).set(data);
+      }
+    });
+
+    const accounts = () => new BatchUpdater(firestore).collection(collection);
+
+    it("aggregates on the server, ignoring non-numeric values", async () => {
+      expect(await accounts().count()).toBe(4);
+      expect(await accounts().sum("balance")).toBe(40);
+      expect(await accounts().average("balance")).toBe(20);
+      expect(
+        await accounts()
+          .where("plan", "==", "pro")
+          .aggregate({
+            users: { type: "count" },
+            total: { type: "sum", field: "balance" },
+            mean: { type: "average", field: "balance" },
+          })
+      ).toEqual({ users: 2, total: 40, mean: 20 });
+    });
+
+    it("returns 0 and null when no value can be aggregated", async () => {
+      const free = accounts().where("plan", "==", "free");
+
+      expect(await free.sum("balance")).toBe(0);
+      expect(await free.average("balance")).toBeNull();
+    });
+
+    it("aggregates docs() and filter() queries locally with the same results", async () => {
+      const spec = {
+        users: { type: "count" },
+        total: { type: "sum", field: "balance" },
+        mean: { type: "average", field: "balance" },
+      } as const;
+
+      expect(
+        await accounts().docs(["a", "c", "missing"]).aggregate(spec)
+      ).toEqual({ users: 2, total: 10, mean: 10 });
+      expect(
+        await accounts()
+          .filter((data) => data.plan === "free")
+          .aggregate(spec)
+      ).toEqual({ users: 2, total: 0, mean: null });
+    });
+  }
+);
@@ -0,0 +1,91 @@
+import { beforeAll, expect, it } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import {
+  countDocs,
+  createFirestore,
+  describeEmulator,
+  seed,
+  uniqueCollection,
+} from "./helpers";
+
+describeEmulator("atomic mode", { timeout: 60000 }, () => {
+  let firestore: Firestore;
+
+  beforeAll(() => {
+    firestore = createFirestore();
+  });
+
+  it("writes every matching document in one batch", async () => {
+    const collection = uniqueCollection("atomic-update");
+    await seed(firestore, collection, 5, (index) => ({
+      even: index % 2 === 0,
+    }));
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .where("even", "==", true)
+      .update({ settled: true }, { atomic: true });
+
+    expect(result.successCount).toBe(3);
+    expect(result.failureReason).toBeUndefined();
+    const settled = await firestore
+      .collection(collection)
+      .where("settled", "==", true)
+      .get();
+    expect(settled.size).toBe(3);
+  });
+
+  it("writes nothing when one write of the batch fails", async () => {
+    const collection = uniqueCollection("atomic-create");
+    await seed(firestore, collection, 1);
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .create(
+        [
+          { id: "new", data: { a: 1 } },
+          { id: "d0000", data: { a: 2 } },
+        ],
+        { atomic: true }
+      );
+
+    expect(result.successCount).toBe(0);
+    expect(result.failedDocIds).toEqual(["new", "d0000"]);
+    expect(result.failureReason).toMatch(
+      /^Atomic batch was not applied, no documents were written/
+    );
+    expect((await firestore.doc(`${collection}/new`).get()).exists).toBe(false);
+  });
+
+  it("refuses more than 500 matching documents before writing", async () => {
+    const collection = uniqueCollection("atomic-limit");
+    await seed(firestore, collection, 501);
+
+    await expect(
+      new BatchUpdater(firestore)
+        .collection(collection)
+        .update({ a: 1 }, { atomic: true })
+    ).rejects.toThrow(
+      "Atomic mode supports at most 500 documents, but 501 would be written"
+    );
+  });
+
+  it("reports recursive deletes that outgrow one batch", async () => {
+    const collection = uniqueCollection("atomic-recursive");
+    await seed(firestore, collection, 1);
+    await seed(firestore, `${collection}/d0000/items`, 500);
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .delete({ atomic: true, recursive: true });
+
+    expect(result.successCount).toBe(0);
+    expect(result.failureCount).toBe(501);
+    expect(result.failureReason).toContain(
+      "Atomic mode supports at most 500 documents, but 501 would be written"
+    );
+    expect(await countDocs(firestore, collection)).toBe(1);
+    expect(await countDocs(firestore, `${collection}/d0000/items`)).toBe(500);
+  });
+});
@@ -0,0 +1,70 @@
+import { beforeAll, expect, it } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import {
+  countDocs,
+  createFirestore,
+  describeEmulator,
+  seed,
+  uniqueCollection,
+} from "./helpers";
+
+describeEmulator("backup / rollback()", { timeout: 60000 }, () => {
+  let firestore: Firestore;
+
+  beforeAll(() => {
+    firestore = createFirestore();
+  });
+
+  const read = async (path: string) => (await firestore.doc(path).get()).data();
+
+  it("rolls back an upsert and a delete from a collection backup", async () => {
+    const collection = uniqueCollection("rollback");
+    const backups = uniqueCollection("backups");
+    await seed(firestore, collection, 2);
+    const updater = new BatchUpdater(firestore);
+
+    const upserted = await updater.collection(collection).upsert(
+      [
+        { id: "d0000", data: { added: true } },
+        { id: "new", data: { added: true } },
+      ],
+      { backup: { collection: backups } }
+    );
+    const deleted = await updater
+      .collection(collection)
+      .docs(["d0001"])
+      .delete({ backup: { collection: backups } });
+
+    const restoredDelete = await updater.rollback(deleted.backupRef!);
+    const restoredUpsert = await updater.rollback(upserted.backupRef!);
+
+    expect(restoredDelete.restoredIds).toEqual([`${collection}/d0001`]);
+    expect(restoredUpsert.restoredIds).toEqual([`${collection}/d0000`]);
+    expect(restoredUpsert.removedIds).toEqual([`${collection}/new`]);
+    expect(await read(`${collection}/d0000`)).toEqual({ index: 0 });
+    expect(await read(`${collection}/d0001`)).toEqual({ index: 1 });
+    expect(await countDocs(firestore, collection)).toBe(2);
+  });
+
+  it("splits before-images too large for one document", async () => {
+    const collection = uniqueCollection("rollback-large");
+    const backups = uniqueCollection("backups-large");
+    const text = "x".repeat(900 * 1024);
+    await seed(firestore, collection, 2, (index) => ({ index, text }));
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .update({ text: "" }, { backup: { collection: backups } });
+    const restored = await new BatchUpdater(firestore).rollback(
+      result.backupRef!
+    );
+
+    expect(result.successCount).toBe(2);
+    expect(
+      await countDocs(firestore, `${result.backupRef!.path}/documents`)
+    ).toBeGreaterThan(2);
+    expect(restored.successCount).toBe(2);
+    expect(await read(`${collection}/d0001`)).toEqual({ index: 1, text });
+  });
+});
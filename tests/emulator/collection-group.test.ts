@@ -0,0 +1,68 @@
+import { beforeAll, expect, it } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import {
+  createFirestore,
+  describeEmulator,
+  seed,
+  uniqueCollection,
+} from "./helpers";
+
+describeEmulator("collectionGroup()", { timeout: 60000 }, () => {
+  let firestore: Firestore;
+  let group: string;
+  let parents: string;
+
+  beforeAll(async () => {
+    firestore = createFirestore();
+    group = uniqueCollection("orders");
+    parents = uniqueCollection("users");
+    await seed(firestore, `${parents}/u1/${group}`, 2);
+    await seed(firestore, `${parents}/u2/${group}`, 2);
+  });
+
+  const read = async (path: string) => (await firestore.doc(path).get()).data();
+
+  it("queries every collection with the ID and reports full paths", async () => {
+    const results = await new BatchUpdater(firestore)
+      .collectionGroup(group)
+      .where("index", "==", 1)
+      .getFields("index");
+
+    expect(results).toEqual([
+      { id: `${parents}/u1/${group}/d0001`, value: 1, exists: true },
+      { id: `${parents}/u2/${group}/d0001`, value: 1, exists: true },
+    ]);
+  });
+
+  it("updates matching documents under every parent", async () => {
+    const result = await new BatchUpdater(firestore)
+      .collectionGroup(group)
+      .where("index", "==", 0)
+      .update({ shipped: true });
+
+    expect(result.successCount).toBe(2);
+    expect(await read(`${parents}/u1/${group}/d0000`)).toEqual({
+      index: 0,
+      shipped: true,
+    });
+    expect(await read(`${parents}/u2/${group}/d0000`)).toEqual({
+      index: 0,
+      shipped: true,
+    });
+    expect(
+      (await read(`${parents}/u2/${group}/d0001`))?.shipped
+    ).toBeUndefined();
+  });
+
+  it("targets documents of the group by full path", async () => {
+    const result = await new BatchUpdater(firestore)
+      .collectionGroup(group)
+      .docs([`${parents}/u2/${group}/d0001`, `${parents}/u3/${group}/d0000`])
+      .update({ flagged: true });
+
+    expect(result.successCount).toBe(1);
+    expect(result.missingDocIds).toEqual([`${parents}/u3/${group}/d0000`]);
+    expect((await read(`${parents}/u2/${group}/d0001`))?.flagged).toBe(true);
+  });
+});
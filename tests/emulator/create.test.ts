@@ -0,0 +1,82 @@
+import { beforeAll, expect, it } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import type { CreateConflictMode } from "../../src";
+import {
+  countDocs,
+  createFirestore,
+  describeEmulator,
+  uniqueCollection,
+} from "./helpers";
+
+describeEmulator("create() onConflict", { timeout: 60000 }, () => {
+  let firestore: Firestore;
+
+  beforeAll(() => {
+    firestore = createFirestore();
+  });
+
+  const read = async (path: string) => (await firestore.doc(path).get()).data();
+
+  // Creates "taken" (which exists), "free" and one document with an auto ID
+  const createWith = async (onConflict: CreateConflictMode) => {
+    const collection = uniqueCollection(`create-${onConflict}`);
+    await firestore.doc(`${collection}/taken`).set({ old: true, name: "Old" });
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .create(
+        [
+          { id: "taken", data: { name: "New" } },
+          { id: "free", data: { name: "Free" } },
+          { data: { name: "Auto" } },
+        ],
+        { onConflict }
+      );
+    return { collection, result };
+  };
+
+  it("fails existing documents by default", async () => {
+    const { collection, result } = await createWith("fail");
+
+    expect(result.successCount).toBe(2);
+    expect(result.failedDocIds).toEqual(["taken"]);
+    expect(result.createdIds).toHaveLength(2);
+    expect(result.createdIds).toContain("free");
+    expect(await read(`${collection}/taken`)).toEqual({
+      old: true,
+      name: "Old",
+    });
+    expect(await countDocs(firestore, collection)).toBe(3);
+  });
+
+  it("skips existing documents", async () => {
+    const { collection, result } = await createWith("skip");
+
+    expect(result.successCount).toBe(2);
+    expect(result.skippedIds).toEqual(["taken"]);
+    expect(result.failedDocIds).toBeUndefined();
+    expect(await read(`${collection}/taken`)).toEqual({
+      old: true,
+      name: "Old",
+    });
+  });
+
+  it("overwrites existing documents", async () => {
+    const { collection, result } = await createWith("overwrite");
+
+    expect(result.successCount).toBe(3);
+    expect(result.overwrittenIds).toEqual(["taken"]);
+    expect(result.createdIds).not.toContain("taken");
+    expect(await read(`${collection}/taken`)).toEqual({ name: "New" });
+  });
+
+  it("merges into existing documents", async () => {
+    const { collection, result } = await createWith("merge");
+
+    expect(result.overwrittenIds).toEqual(["taken"]);
+    expect(await read(`${collection}/taken`)).toEqual({
+      old: true,
+      name: "New",
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { beforeAll, expect, it } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import {
+  beforeFirstWrite,
+  countDocs,
+  createFirestore,
+  describeEmulator,
+  seed,
+  uniqueCollection,
+} from "./helpers";
+
+describeEmulator("recursive delete()", { timeout: 60000 }, () => {
+  let firestore: Firestore;
+
+  beforeAll(() => {
+    firestore = createFirestore();
+  });
+
+  // d0000 with two items, the first of which has two notes
+  const seedTree = async (name: string) => {
+    const collection = uniqueCollection(name);
+    await seed(firestore, collection, 1);
+    await seed(firestore, `${collection}/d0000/items`, 2);
+    await seed(firestore, `${collection}/d0000/items/d0000/notes`, 2);
+    return collection;
+  };
+
+  it("deletes every level below the matched documents", async () => {
+    const collection = await seedTree("recursive");
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .delete({ recursive: true });
+
+    expect(result.successCount).toBe(5);
+    expect(result.totalCount).toBe(5);
+    expect(result.deletedIds).toContain(
+      `${collection}/d0000/items/d0000/notes/d0001`
+    );
+    expect(await countDocs(firestore, `${collection}/d0000/items`)).toBe(0);
+    expect(
+      await countDocs(firestore, `${collection}/d0000/items/d0000/notes`)
+    ).toBe(0);
+  });
+
+  it("leaves levels below maxDepth in place", async () => {
+    const collection = await seedTree("max-depth");
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .delete({ recursive: true, maxDepth: 1 });
+
+    expect(result.successCount).toBe(3);
+    expect(await countDocs(firestore, `${collection}/d0000/items`)).toBe(0);
+    expect(
+      await countDocs(firestore, `${collection}/d0000/items/d0000/notes`)
+    ).toBe(2);
+  });
+
+  it("lists the paths of a dry run without deleting", async () => {
+    const collection = await seedTree("dry-run");
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .delete({ recursive: true, dryRun: true });
+
+    expect(result.successCount).toBe(0);
+    expect(result.dryRunPaths).toEqual([
+      `${collection}/d0000`,
+      `${collection}/d0000/items/d0000`,
+      `${collection}/d0000/items/d0000/notes/d0000`,
+      `${collection}/d0000/items/d0000/notes/d0001`,
+      `${collection}/d0000/items/d0001`,
+    ]);
+    expect(await countDocs(firestore, collection)).toBe(1);
+  });
+
+  it("keeps the subcollections of a document whose delete conflicted", async () => {
+    const collection = await seedTree("conflict");
+    await seed(firestore, `${collection}/d0001/items`, 1);
+    await firestore.doc(`${collection}/d0001`).set({ index: 1 });
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .delete({
+        recursive: true,
+        precondition: "unchanged",
+        throttle: beforeFirstWrite(() =>
+          firestore.doc(`${collection}/d0000`).update({ changed: true })
+        ),
+      });
+
+    expect(result.conflictedDocIds).toEqual(["d0000"]);
+    expect(result.deletedIds).toEqual([
+      "d0001",
+      `${collection}/d0001/items/d0000`,
+    ]);
+    expect(result.totalCount).toBe(3);
+    expect(await countDocs(firestore, `${collection}/d0000/items`)).toBe(2);
+  });
+});
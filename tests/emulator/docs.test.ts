@@ -0,0 +1,72 @@
+import { beforeAll, expect, it } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import {
+  countDocs,
+  createFirestore,
+  describeEmulator,
+  seed,
+  uniqueCollection,
+} from "./helpers";
+
+describeEmulator("docs()", { timeout: 60000 }, () => {
+  let firestore: Firestore;
+
+  beforeAll(() => {
+    firestore = createFirestore();
+  });
+
+  const read = async (path: string) => (await firestore.doc(path).get()).data();
+
+  it("writes the listed documents and reports missing IDs", async () => {
+    const collection = uniqueCollection("docs-update");
+    await seed(firestore, collection, 3);
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .docs(["d0002", "gone", "d0000"])
+      .update({ picked: true });
+
+    expect(result.successCount).toBe(2);
+    expect(result.totalCount).toBe(2);
+    expect(result.missingDocIds).toEqual(["gone"]);
+    expect(await read(`${collection}/d0002`)).toEqual({
+      index: 2,
+      picked: true,
+    });
+    expect(await read(`${collection}/d0001`)).toEqual({ index: 1 });
+    expect(await read(`${collection}/gone`)).toBeUndefined();
+  });
+
+  it("previews, filters and deletes the listed documents", async () => {
+    const collection = uniqueCollection("docs-delete");
+    await seed(firestore, collection, 3);
+    const byId = new BatchUpdater(firestore)
+      .collection(collection)
+      .docs(["d0000", "d0001", "gone"])
+      .filter((data) => data.index > 0);
+
+    const preview = await byId.preview({ picked: true });
+    const result = await byId.delete();
+
+    expect(preview.affectedCount).toBe(1);
+    expect(preview.missingDocIds).toEqual(["gone"]);
+    expect(result.deletedIds).toEqual(["d0001"]);
+    expect(await countDocs(firestore, collection)).toBe(2);
+  });
+
+  it("reads the listed documents page by page", async () => {
+    const collection = uniqueCollection("docs-pages");
+    await seed(firestore, collection, 4);
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .docs(["d0000", "d0001", "gone", "d0002", "d0003"])
+      .update({ paged: true }, { batchSize: 2 });
+
+    expect(result.successCount).toBe(4);
+    expect(result.totalCount).toBe(4);
+    expect(result.missingDocIds).toEqual(["gone"]);
+    expect(await countDocs(firestore, collection)).toBe(4);
+  });
+});
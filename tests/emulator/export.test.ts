@@ -0,0 +1,69 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { afterEach, beforeAll, expect, it } from "vitest";
+import { Timestamp } from "firebase-admin/firestore";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import { createFirestore, describeEmulator, uniqueCollection } from "./helpers";
+
+describeEmulator("export() / import()", { timeout: 60000 }, () => {
+  let firestore: Firestore;
+  let directory: string;
+
+  beforeAll(() => {
+    firestore = createFirestore();
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const file = (name: string) => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "export-"));
+    return path.join(directory, name);
+  };
+
+  it("restores every value type from a CSV export", async () => {
+    const source = uniqueCollection("csv-source");
+    const target = uniqueCollection("csv-target");
+    const data = {
+      name: "Kim",
+      count: 3,
+      ratio: 0.25,
+      active: false,
+      deleted: null,
+      label: "42",
+      blank: "",
+      at: new Timestamp(10, 0),
+      address: { zip: "00123", floor: 2 },
+      tags: ["a", 1],
+    };
+    await firestore.doc(`${source}/u1`).set(data);
+    const destination = file("users.csv");
+
+    const exported = await new BatchUpdater(firestore)
+      .collection(source)
+      .export(destination);
+    const imported = await new BatchUpdater(firestore)
+      .collection(target)
+      .import(destination, { idField: "__id" });
+
+    expect(exported.exportedCount).toBe(1);
+    expect(imported.successCount).toBe(1);
+    expect((await firestore.doc(`${target}/u1`).get()).data()).toEqual(data);
+  });
+
+  it("removes the staged rows when the export fails", async () => {
+    const source = uniqueCollection("csv-failed");
+    await firestore.doc(`${source}/u1`).set({ __id: "clash" });
+    const destination = file("users.csv");
+
+    await expect(
+      new BatchUpdater(firestore).collection(source).export(destination)
+    ).rejects.toThrow('Document "u1" has a field named "__id"');
+
+    expect(fs.readdirSync(directory)).toEqual([]);
+  });
+});
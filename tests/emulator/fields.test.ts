@@ -0,0 +1,73 @@
+import { beforeAll, expect, it } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import {
+  createFirestore,
+  describeEmulator,
+  seed,
+  uniqueCollection,
+} from "./helpers";
+
+describeEmulator("getFields() / streamFields()", { timeout: 60000 }, () => {
+  let firestore: Firestore;
+
+  beforeAll(() => {
+    firestore = createFirestore();
+  });
+
+  it("returns one field, telling missing fields from null", async () => {
+    const collection = uniqueCollection("fields-single");
+    await firestore.doc(`${collection}/a`).set({ email: "a@example.com" });
+    await firestore.doc(`${collection}/b`).set({ email: null });
+    await firestore.doc(`${collection}/c`).set({ name: "C" });
+
+    const results = await new BatchUpdater(firestore)
+      .collection(collection)
+      .getFields("email");
+
+    expect(results).toEqual([
+      { id: "a", value: "a@example.com", exists: true },
+      { id: "b", value: null, exists: true },
+      { id: "c", value: undefined, exists: false },
+    ]);
+  });
+
+  it("returns several fields, including nested ones", async () => {
+    const collection = uniqueCollection("fields-multi");
+    await firestore.doc(`${collection}/a`).set({
+      name: "A",
+      profile: { city: "Seoul", zip: "04524" },
+      secret: "hidden",
+    });
+    await firestore.doc(`${collection}/b`).set({ name: "B" });
+
+    const results = await new BatchUpdater(firestore)
+      .collection(collection)
+      .getFields(["name", "profile.city"]);
+
+    expect(results).toEqual([
+      {
+        id: "a",
+        values: { name: "A", "profile.city": "Seoul" },
+        missingFields: [],
+      },
+      { id: "b", values: { name: "B" }, missingFields: ["profile.city"] },
+    ]);
+  });
+
+  it("streams every matching document page by page", async () => {
+    const collection = uniqueCollection("fields-stream");
+    await seed(firestore, collection, 5);
+    const ids: string[] = [];
+
+    for await (const result of new BatchUpdater(firestore)
+      .collection(collection)
+      .where("index", ">=", 1)
+      .streamFields(["index"], { batchSize: 2 })) {
+      ids.push(result.id);
+      expect(result.values.index).toBe(Number(result.id.slice(1)));
+    }
+
+    expect(ids).toEqual(["d0001", "d0002", "d0003", "d0004"]);
+  });
+});
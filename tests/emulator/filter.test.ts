@@ -0,0 +1,79 @@
+import { beforeAll, expect, it } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import {
+  createFirestore,
+  describeEmulator,
+  seed,
+  uniqueCollection,
+} from "./helpers";
+
+describeEmulator("filter()", { timeout: 60000 }, () => {
+  let firestore: Firestore;
+
+  beforeAll(() => {
+    firestore = createFirestore();
+  });
+
+  // d0000 to d0005; the odd ones have a name ending in "x"
+  const seedNames = async (name: string) => {
+    const collection = uniqueCollection(name);
+    await seed(firestore, collection, 6, (index) => ({
+      index,
+      name: index % 2 ? `user${index}x` : `user${index}`,
+    }));
+    return collection;
+  };
+
+  it("writes only documents the predicates accept", async () => {
+    const collection = await seedNames("filter-update");
+    const seen: string[] = [];
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .where("index", ">=", 2)
+      .filter((data, ref) => {
+        seen.push(ref.id);
+        return data.name.endsWith("x");
+      })
+      .filter((data) => data.index !== 5)
+      .update({ flagged: true });
+
+    expect(result.successCount).toBe(1);
+    expect(result.totalCount).toBe(1);
+    expect(seen).toEqual(["d0002", "d0003", "d0004", "d0005"]);
+    const flagged = await new BatchUpdater(firestore)
+      .collection(collection)
+      .where("flagged", "==", true)
+      .getFields("index");
+    expect(flagged).toEqual([{ id: "d0003", value: 3, exists: true }]);
+  });
+
+  it("applies limit() and batchSize to accepted documents", async () => {
+    const collection = await seedNames("filter-limit");
+    const query = new BatchUpdater(firestore)
+      .collection(collection)
+      .filter((data) => data.name.endsWith("x"))
+      .limit(2);
+
+    const preview = await query.preview({ flagged: true });
+    const result = await query.update({ flagged: true }, { batchSize: 1 });
+
+    expect(preview.affectedCount).toBe(2);
+    expect(preview.samples.map((sample) => sample.id)).toEqual([
+      "d0001",
+      "d0003",
+    ]);
+    expect(result.successCount).toBe(2);
+  });
+
+  it("counts and aggregates accepted documents", async () => {
+    const collection = await seedNames("filter-count");
+    const query = new BatchUpdater(firestore)
+      .collection(collection)
+      .filter((data) => data.name.endsWith("x"));
+
+    expect(await query.count()).toBe(3);
+    expect(await query.sum("index")).toBe(9);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Helpers for tests that run against the Firestore emulator
+ *
+ * Start the emulator and set FIRESTORE_EMULATOR_HOST (e.g., "localhost:8080")
+ * to run them; without it they are skipped
+ */
+
+import { randomUUID } from "crypto";
+import { describe } from "vitest";
+import { Firestore } from "firebase-admin/firestore";
+import type { DocumentData } from "firebase-admin/firestore";
+import { Throttle } from "../../src";
+
+/**
+ * describe() that only runs when the emulator is available
+ */
+export const describeEmulator = describe.skipIf(
+  !process.env.FIRESTORE_EMULATOR_HOST
+);
+
+/**
+ * Firestore client connected to the emulator
+ */
+export function createFirestore(): Firestore {
+  return new Firestore({ projectId: "demo-batch-updater" });
+}
+
+/**
+ * Collection path no other test uses, so tests need no cleanup between them
+ * @param name - Readable part of the path
+ */
+export function uniqueCollection(name: string): string {
+  return `${name}-${randomUUID()}`;
+}
+
+/**
+ * Write numbered documents (d0000, d0001, ...) into a collection
+ * @param data - Data of the document with the given index
+ */
+export async function seed(
+  firestore: Firestore,
+  collectionPath: string,
+  count: number,
+  data: (index: number) => DocumentData = (index) => ({ index })
+): Promise<void> {
+  const writer = firestore.bulkWriter();
+  for (let i = 0; i < count; i++) {
+    void writer.set(
+      firestore.doc(`${collectionPath}/d${String(i).padStart(4, "0")}`),
+      data(i)
+    );
+  }
+  await writer.close();
+}
+
+/**
+ * Number of documents in a collection
+ */
+export async function countDocs(
+  firestore: Firestore,
+  collectionPath: string
+): Promise<number> {
+  const snapshot = await firestore.collection(collectionPath).count().get();
+  return snapshot.data().count;
+}
+
+/**
+ * Throttle that runs an action before the first write is handed to BulkWriter,
+ * e.g. to change a document between the read and the write of an operation
+ * @param action - Runs once; writes wait until it has finished
+ */
+export function beforeFirstWrite(action: () => Promise<unknown>): Throttle {
+  let done: Promise<unknown> | undefined;
+
+  return new (class extends Throttle {
+    async acquire(flush: () => void): Promise<void> {
+      done ??= action();
+      await done;
+      return super.acquire(flush);
+    }
+  })();
+}
@@ -0,0 +1,69 @@
+import { beforeAll, expect, it } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater, and, or } from "../../src";
+import { createFirestore, describeEmulator, uniqueCollection } from "./helpers";
+
+describeEmulator("OR and nested AND/OR filters", { timeout: 60000 }, () => {
+  let firestore: Firestore;
+  let collection: string;
+
+  beforeAll(async () => {
+    firestore = createFirestore();
+    collection = uniqueCollection("users");
+    const users = {
+      minor: { age: 15, plan: "pro", credits: 5 },
+      idle: { age: 30, plan: "free", credits: 0 },
+      paying: { age: 30, plan: "pro", credits: 0 },
+      active: { age: 40, plan: "free", credits: 3 },
+    };
+    for (const [id, data] of Object.entries(users)) {
+      await firestore.doc(`${collection}/${id}`).set(data);
+    }
+  });
+
+  const ids = async (updater: BatchUpdater) =>
+    (await updater.getFields("age")).map((result) => result.id);
+
+  it("matches documents that meet any condition of whereAny()", async () => {
+    const query = new BatchUpdater(firestore).collection(collection).whereAny([
+      { field: "age", operator: "<", value: 18 },
+      { field: "plan", operator: "==", value: "free" },
+    ]);
+
+    expect((await ids(query)).sort()).toEqual(["active", "idle", "minor"]);
+    expect(await query.count()).toBe(3);
+  });
+
+  it("evaluates AND groups nested in OR groups", async () => {
+    const query = new BatchUpdater(firestore)
+      .collection(collection)
+      .where(
+        or(
+          { field: "age", operator: "<", value: 18 },
+          and(
+            { field: "plan", operator: "==", value: "free" },
+            { field: "credits", operator: "==", value: 0 }
+          )
+        )
+      );
+
+    expect((await ids(query)).sort()).toEqual(["idle", "minor"]);
+  });
+
+  it("combines a group with plain conditions and writes only matches", async () => {
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .where("credits", "==", 0)
+      .whereAny([
+        { field: "plan", operator: "==", value: "free" },
+        { field: "age", operator: ">=", value: 30 },
+      ])
+      .update({ reminded: true });
+
+    expect(result.successCount).toBe(2);
+    const reminded = await new BatchUpdater(firestore)
+      .collection(collection)
+      .where("reminded", "==", true);
+    expect((await ids(reminded)).sort()).toEqual(["idle", "paying"]);
+  });
+});
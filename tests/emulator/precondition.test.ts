@@ -0,0 +1,107 @@
+import { beforeAll, expect, it } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import {
+  beforeFirstWrite,
+  createFirestore,
+  describeEmulator,
+  seed,
+  uniqueCollection,
+} from "./helpers";
+
+describeEmulator("precondition: unchanged", { timeout: 60000 }, () => {
+  let firestore: Firestore;
+
+  beforeAll(() => {
+    firestore = createFirestore();
+  });
+
+  const read = async (path: string) => (await firestore.doc(path).get()).data();
+
+  // Three open documents, the first of which is changed after it was read
+  const seedAndChange = async (name: string, change: Record<string, any>) => {
+    const collection = uniqueCollection(name);
+    await seed(firestore, collection, 3, (index) => ({
+      status: "open",
+      count: index,
+    }));
+    const throttle = beforeFirstWrite(() =>
+      firestore.doc(`${collection}/d0000`).update(change)
+    );
+    return { collection, throttle };
+  };
+
+  it("reports documents changed since they were read as conflicts", async () => {
+    const { collection, throttle } = await seedAndChange("conflict", {
+      count: 10,
+    });
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .update({ settled: true }, { precondition: "unchanged", throttle });
+
+    expect(result.successCount).toBe(2);
+    expect(result.conflictedDocIds).toEqual(["d0000"]);
+    expect(result.failedDocIds).toBeUndefined();
+    expect(await read(`${collection}/d0000`)).toEqual({
+      status: "open",
+      count: 10,
+    });
+  });
+
+  it("re-reads conflicting documents and retries them", async () => {
+    const { collection, throttle } = await seedAndChange("retry", {
+      count: 10,
+    });
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .updateWith((data) => ({ total: data.count + 1 }), {
+        precondition: "unchanged",
+        conflictRetries: 1,
+        throttle,
+      });
+
+    expect(result.successCount).toBe(3);
+    expect(result.conflictedDocIds).toBeUndefined();
+    // The transform ran again on the changed data
+    expect((await read(`${collection}/d0000`))?.total).toBe(11);
+  });
+
+  it("skips re-read documents that no longer match the query", async () => {
+    const { collection, throttle } = await seedAndChange("requery", {
+      status: "closed",
+    });
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .where("status", "==", "open")
+      .update(
+        { settled: true },
+        { precondition: "unchanged", conflictRetries: 1, throttle }
+      );
+
+    expect(result.successCount).toBe(2);
+    expect(result.conflictedDocIds).toBeUndefined();
+    expect(result.failedDocIds).toBeUndefined();
+    expect((await read(`${collection}/d0000`))?.settled).toBeUndefined();
+  });
+
+  it("checks filter() predicates again on re-read documents", async () => {
+    const { collection, throttle } = await seedAndChange("refilter", {
+      locked: true,
+    });
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .filter((data) => !data.locked)
+      .update(
+        { settled: true },
+        { precondition: "unchanged", conflictRetries: 1, throttle }
+      );
+
+    expect(result.successCount).toBe(2);
+    expect(result.conflictedDocIds).toBeUndefined();
+    expect((await read(`${collection}/d0000`))?.settled).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { afterEach, beforeAll, expect, it } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import type { DeleteResult, UpdateResult } from "../../src";
+import {
+  countDocs,
+  createFirestore,
+  describeEmulator,
+  seed,
+  uniqueCollection,
+} from "./helpers";
+
+describeEmulator("checkpoint and resume", { timeout: 120000 }, () => {
+  let firestore: Firestore;
+  const files: string[] = [];
+
+  beforeAll(() => {
+    firestore = createFirestore();
+  });
+
+  afterEach(() => {
+    for (const file of files.splice(0)) {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it("resumes an aborted delete from a checkpoint file", async () => {
+    const collection = uniqueCollection("resume-file");
+    await seed(firestore, collection, 25);
+    const checkpointPath = path.join(os.tmpdir(), `${randomUUID()}.ndjson`);
+    files.push(checkpointPath);
+    const controller = new AbortController();
+
+    const first = await new BatchUpdater(firestore)
+      .collection(collection)
+      .delete({
+        batchSize: 10,
+        checkpoint: { path: checkpointPath },
+        signal: controller.signal,
+        onProgress: () => controller.abort(),
+      });
+
+    expect(first.aborted).toBe(true);
+    expect(first.successCount).toBe(10);
+    expect(first.checkpointRef).toEqual({ type: "file", path: checkpointPath });
+
+    const resumed = (await new BatchUpdater(firestore).resume(
+      first.checkpointRef!
+    )) as DeleteResult;
+
+    expect(resumed.aborted).toBeUndefined();
+    expect(resumed.successCount).toBe(25);
+    expect(resumed.totalCount).toBe(25);
+    expect(new Set(resumed.deletedIds).size).toBe(25);
+    expect(await countDocs(firestore, collection)).toBe(0);
+    await expect(
+      new BatchUpdater(firestore).resume(first.checkpointRef!)
+    ).rejects.toThrow("Checkpoint is already complete");
+  });
+
+  it("resumes an aborted update from pages split over several documents", async () => {
+    const collection = uniqueCollection("resume-firestore");
+    // Long IDs make the saved ID list of one page larger than a single part
+    const prefix = "x".repeat(700);
+    const writer = firestore.bulkWriter();
+    for (let i = 0; i < 1000; i++) {
+      void writer.set(
+        firestore.doc(`${collection}/${prefix}${String(i).padStart(4, "0")}`),
+        { index: i }
+      );
+    }
+    await writer.close();
+    const checkpointDoc = `checkpoints/${randomUUID()}`;
+    const controller = new AbortController();
+
+    const first = await new BatchUpdater(firestore)
+      .collection(collection)
+      .update(
+        { touched: true },
+        {
+          batchSize: 500,
+          checkpoint: { document: checkpointDoc },
+          signal: controller.signal,
+          onProgress: () => controller.abort(),
+        }
+      );
+
+    expect(first.aborted).toBe(true);
+    expect(first.successCount).toBe(500);
+    expect(
+      await countDocs(firestore, `${checkpointDoc}/pages`)
+    ).toBeGreaterThan(1);
+
+    const resumed = (await new BatchUpdater(firestore).resume({
+      type: "firestore",
+      path: checkpointDoc,
+    })) as UpdateResult;
+
+    expect(resumed.aborted).toBeUndefined();
+    expect(resumed.successCount).toBe(1000);
+    expect(resumed.totalCount).toBe(1000);
+    const touched = await firestore
+      .collection(collection)
+      .where("touched", "==", true)
+      .count()
+      .get();
+    expect(touched.data().count).toBe(1000);
+  });
+});
@@ -0,0 +1,110 @@
+import { beforeAll, expect, it } from "vitest";
+import { Timestamp } from "firebase-admin/firestore";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater, SOFT_DELETE_FIELD } from "../../src";
+import {
+  countDocs,
+  createFirestore,
+  describeEmulator,
+  seed,
+  uniqueCollection,
+} from "./helpers";
+
+describeEmulator("softDelete() / restore()", { timeout: 60000 }, () => {
+  let firestore: Firestore;
+
+  beforeAll(() => {
+    firestore = createFirestore();
+  });
+
+  const read = async (path: string) => (await firestore.doc(path).get()).data();
+
+  it("archives documents with their deletion metadata", async () => {
+    const collection = uniqueCollection("soft-source");
+    const archive = uniqueCollection("soft-archive");
+    await seed(firestore, collection, 2);
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .where("index", "==", 1)
+      .softDelete({
+        archiveCollection: archive,
+        reason: "cleanup",
+        operator: "tester",
+        runId: "run-1",
+      });
+
+    expect(result.deletedIds).toEqual(["d0001"]);
+    expect(result.runId).toBe("run-1");
+    expect(await read(`${collection}/d0001`)).toBeUndefined();
+    expect(await read(`${collection}/d0000`)).toEqual({ index: 0 });
+
+    const archived = await firestore.collection(archive).get();
+    expect(archived.size).toBe(1);
+    const { [SOFT_DELETE_FIELD]: metadata, ...data } = archived.docs[0].data();
+    expect(data).toEqual({ index: 1 });
+    expect(metadata).toEqual({
+      deletedAt: expect.any(Timestamp),
+      deletedBy: "tester",
+      originalPath: `${collection}/d0001`,
+      runId: "run-1",
+      reason: "cleanup",
+    });
+  });
+
+  it("restores a run to the original paths without the metadata", async () => {
+    const collection = uniqueCollection("restore-source");
+    const archive = uniqueCollection("restore-archive");
+    await seed(firestore, collection, 3);
+    await seed(firestore, `${collection}/d0000/items`, 2);
+    const updater = new BatchUpdater(firestore);
+
+    const deleted = await updater.collection(collection).softDelete({
+      archiveCollection: archive,
+      includeSubcollections: true,
+    });
+    const restored = await updater
+      .collection(archive)
+      .where(`${SOFT_DELETE_FIELD}.runId`, "==", deleted.runId)
+      .restore({ includeSubcollections: true });
+
+    expect(deleted.successCount).toBe(3);
+    expect(restored.successCount).toBe(3);
+    expect(restored.skippedCount).toBe(0);
+    expect(await read(`${collection}/d0002`)).toEqual({ index: 2 });
+    expect(await countDocs(firestore, `${collection}/d0000/items`)).toBe(2);
+    expect(await countDocs(firestore, archive)).toBe(0);
+  });
+
+  it("keeps archived documents whose original path exists again", async () => {
+    const collection = uniqueCollection("restore-conflict");
+    const archive = uniqueCollection("restore-conflict-archive");
+    await seed(firestore, collection, 2);
+    const updater = new BatchUpdater(firestore);
+
+    await updater
+      .collection(collection)
+      .softDelete({ archiveCollection: archive });
+    await firestore.doc(`${collection}/d0000`).set({ recreated: true });
+    const restored = await updater.collection(archive).restore();
+
+    expect(restored.successCount).toBe(1);
+    expect(restored.skippedCount).toBe(1);
+    expect(await read(`${collection}/d0000`)).toEqual({ recreated: true });
+    expect(await read(`${collection}/d0001`)).toEqual({ index: 1 });
+    expect(await countDocs(firestore, archive)).toBe(1);
+  });
+
+  it("fails documents that were not soft-deleted", async () => {
+    const archive = uniqueCollection("restore-invalid");
+    await firestore.doc(`${archive}/plain`).set({ name: "plain" });
+
+    const restored = await new BatchUpdater(firestore)
+      .collection(archive)
+      .restore();
+
+    expect(restored.successCount).toBe(0);
+    expect(restored.failedDocIds).toEqual(["plain"]);
+    expect(await read(`${archive}/plain`)).toEqual({ name: "plain" });
+  });
+});
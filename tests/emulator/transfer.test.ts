@@ -0,0 +1,163 @@
+import { beforeAll, expect, it } from "vitest";
+import { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import {
+  countDocs,
+  createFirestore,
+  describeEmulator,
+  seed,
+  uniqueCollection,
+} from "./helpers";
+
+describeEmulator("copyTo() / moveTo()", { timeout: 60000 }, () => {
+  let firestore: Firestore;
+
+  beforeAll(() => {
+    firestore = createFirestore();
+  });
+
+  const read = async (path: string) => (await firestore.doc(path).get()).data();
+
+  it("copies documents and skips existing targets by default", async () => {
+    const source = uniqueCollection("copy-source");
+    const target = uniqueCollection("copy-target");
+    await seed(firestore, source, 3);
+    await firestore.doc(`${target}/d0001`).set({ kept: true });
+
+    const result = await new BatchUpdater(firestore)
+      .collection(source)
+      .copyTo(target);
+
+    expect(result.successCount).toBe(2);
+    expect(result.skippedCount).toBe(1);
+    expect(result.copiedIds).toEqual(["d0000", "d0002"]);
+    expect(await read(`${target}/d0000`)).toEqual({ index: 0 });
+    expect(await read(`${target}/d0001`)).toEqual({ kept: true });
+    expect(await countDocs(firestore, source)).toBe(3);
+  });
+
+  it("overwrites or merges into existing targets", async () => {
+    const source = uniqueCollection("conflict-source");
+    const overwritten = uniqueCollection("conflict-overwrite");
+    const merged = uniqueCollection("conflict-merge");
+    await seed(firestore, source, 1);
+    await firestore.doc(`${overwritten}/d0000`).set({ kept: true });
+    await firestore.doc(`${merged}/d0000`).set({ kept: true });
+
+    const updater = new BatchUpdater(firestore).collection(source);
+    await updater.copyTo(overwritten, { onConflict: "overwrite" });
+    await updater.copyTo(merged, { onConflict: "merge" });
+
+    expect(await read(`${overwritten}/d0000`)).toEqual({ index: 0 });
+    expect(await read(`${merged}/d0000`)).toEqual({ kept: true, index: 0 });
+  });
+
+  it("maps IDs and transforms data, skipping documents the transform drops", async () => {
+    const source = uniqueCollection("map-source");
+    const target = uniqueCollection("map-target");
+    await seed(firestore, source, 3);
+
+    const result = await new BatchUpdater(firestore)
+      .collection(source)
+      .copyTo(target, {
+        mapId: (id) => `copy-${id}`,
+        transform: (data) =>
+          data.index === 1 ? null : { doubled: data.index * 2 },
+      });
+
+    expect(result.successCount).toBe(2);
+    expect(result.skippedCount).toBe(1);
+    expect(await read(`${target}/copy-d0002`)).toEqual({ doubled: 4 });
+    expect(await countDocs(firestore, target)).toBe(2);
+  });
+
+  it("copies into another Firestore instance and rebinds references", async () => {
+    const source = uniqueCollection("instance-source");
+    const target = uniqueCollection("instance-target");
+    const other = new Firestore({ projectId: "demo-batch-updater-target" });
+    await firestore
+      .doc(`${source}/a`)
+      .set({ owner: firestore.doc("users/u1") });
+
+    const result = await new BatchUpdater(firestore)
+      .collection(source)
+      .copyTo(target, { firestore: other });
+
+    expect(result.successCount).toBe(1);
+    const copied = (await other.doc(`${target}/a`).get()).data();
+    expect(copied?.owner.path).toBe("users/u1");
+    expect(await countDocs(firestore, target)).toBe(0);
+  });
+
+  it("moves documents with their subcollections", async () => {
+    const source = uniqueCollection("move-source");
+    const target = uniqueCollection("move-target");
+    await seed(firestore, source, 2);
+    await seed(firestore, `${source}/d0000/items`, 3);
+
+    const result = await new BatchUpdater(firestore)
+      .collection(source)
+      .moveTo(target, { includeSubcollections: true });
+
+    expect(result.movedIds).toEqual(["d0000", "d0001"]);
+    expect(await countDocs(firestore, source)).toBe(0);
+    expect(await countDocs(firestore, `${source}/d0000/items`)).toBe(0);
+    expect(await countDocs(firestore, target)).toBe(2);
+    expect(await countDocs(firestore, `${target}/d0000/items`)).toBe(3);
+  });
+
+  it("keeps subcollection sources whose target already exists", async () => {
+    const source = uniqueCollection("move-kept-source");
+    const target = uniqueCollection("move-kept-target");
+    await seed(firestore, source, 1);
+    await seed(firestore, `${source}/d0000/items`, 2);
+    await firestore.doc(`${target}/d0000/items/d0001`).set({ kept: true });
+
+    const result = await new BatchUpdater(firestore)
+      .collection(source)
+      .moveTo(target, { includeSubcollections: true });
+
+    expect(result.movedIds).toEqual(["d0000"]);
+    expect(await read(`${source}/d0000`)).toBeUndefined();
+    expect(await read(`${source}/d0000/items/d0000`)).toBeUndefined();
+    expect(await read(`${source}/d0000/items/d0001`)).toEqual({ index: 1 });
+    expect(await read(`${target}/d0000/items/d0000`)).toEqual({ index: 0 });
+    expect(await read(`${target}/d0000/items/d0001`)).toEqual({ kept: true });
+  });
+
+  it("deletes a source only after its target write succeeded", async () => {
+    const source = uniqueCollection("move-failed-source");
+    const target = uniqueCollection("move-failed-target");
+    await seed(firestore, source, 2);
+
+    const result = await new BatchUpdater(firestore)
+      .collection(source)
+      .moveTo(target, {
+        // undefined is not a valid Firestore value, so this target write fails
+        transform: (data) => (data.index === 0 ? { invalid: undefined } : data),
+      });
+
+    expect(result.movedIds).toEqual(["d0001"]);
+    expect(result.failedDocIds).toEqual(["d0000"]);
+    expect(await read(`${source}/d0000`)).toEqual({ index: 0 });
+    expect(await read(`${source}/d0001`)).toBeUndefined();
+    expect(await countDocs(firestore, target)).toBe(1);
+  });
+
+  it("fails documents of a collection group that map to the same target", async () => {
+    const group = uniqueCollection("group");
+    const parent = uniqueCollection("parents");
+    const target = uniqueCollection("group-target");
+    await seed(firestore, `${parent}/p1/${group}`, 1);
+    await seed(firestore, `${parent}/p2/${group}`, 1);
+
+    const result = await new BatchUpdater(firestore)
+      .collectionGroup(group)
+      .moveTo(target, { onConflict: "overwrite" });
+
+    expect(result.successCount).toBe(1);
+    expect(result.failedDocIds).toEqual([`${parent}/p2/${group}/d0000`]);
+    expect(await read(`${parent}/p2/${group}/d0000`)).toEqual({ index: 0 });
+    expect(await countDocs(firestore, target)).toBe(1);
+  });
+});
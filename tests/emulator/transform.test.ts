@@ -0,0 +1,117 @@
+import { beforeAll, expect, it } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import {
+  createFirestore,
+  describeEmulator,
+  seed,
+  uniqueCollection,
+} from "./helpers";
+
+describeEmulator(
+  "updateWith() / upsertWith() / field operations",
+  { timeout: 60000 },
+  () => {
+    let firestore: Firestore;
+
+    beforeAll(() => {
+      firestore = createFirestore();
+    });
+
+    const read = async (path: string) =>
+      (await firestore.doc(path).get()).data();
+
+    it("writes computed data and accounts for skipped and failed documents", async () => {
+      const collection = uniqueCollection("update-with");
+      await seed(firestore, collection, 4);
+
+      const result = await new BatchUpdater(firestore)
+        .collection(collection)
+        .updateWith((data) => {
+          if (data.index === 1) {
+            return null;
+          }
+          if (data.index === 2) {
+            throw new Error("bad data");
+          }
+          if (data.index === 3) {
+            return {};
+          }
+          return { doubled: data.index * 2 + 10 };
+        });
+
+      // Skipped documents are left out of the total
+    expect(result.totalCount).toBe(3);
+      expect(result.successCount).toBe(1);
+      expect(result.skippedCount).toBe(1);
+      expect(result.failureCount).toBe(2);
+      expect(result.failedDocIds).toEqual(["d0002", "d0003"]);
+      expect(await read(`${collection}/d0000`)).toEqual({
+        index: 0,
+        doubled: 10,
+      });
+      expect(await read(`${collection}/d0002`)).toEqual({ index: 2 });
+    });
+
+    it("previews computed data without writing", async () => {
+      const collection = uniqueCollection("preview-with");
+      await seed(firestore, collection, 3);
+
+      const preview = await new BatchUpdater(firestore)
+        .collection(collection)
+        .preview((data) =>
+          data.index === 0 ? null : { next: data.index + 1 }
+        );
+
+      expect(preview.affectedCount).toBe(2);
+      expect(preview.skippedCount).toBe(1);
+      expect(preview.affectedFields).toEqual(["next"]);
+      expect(preview.samples[0]).toEqual({
+        id: "d0001",
+        before: { index: 1 },
+        after: { index: 1, next: 2 },
+      });
+      expect(await read(`${collection}/d0001`)).toEqual({ index: 1 });
+    });
+
+    it("merges computed data with upsertWith()", async () => {
+      const collection = uniqueCollection("upsert-with");
+      await firestore
+        .doc(`${collection}/a`)
+        .set({ stats: { visits: 2, likes: 1 } });
+
+      await new BatchUpdater(firestore)
+        .collection(collection)
+        .upsertWith((data) => ({ stats: { visits: data.stats.visits + 1 } }));
+
+      expect(await read(`${collection}/a`)).toEqual({
+        stats: { visits: 3, likes: 1 },
+      });
+    });
+
+    it("renames, moves and removes fields, skipping documents without them", async () => {
+      const collection = uniqueCollection("field-ops");
+      await firestore.doc(`${collection}/a`).set({
+        userName: "kim",
+        address: { city: "Seoul" },
+        legacy: true,
+        temp: 1,
+      });
+      await firestore.doc(`${collection}/b`).set({ other: true });
+      const updater = new BatchUpdater(firestore).collection(collection);
+
+      const renamed = await updater.renameField("userName", "displayName");
+      await updater.moveField("address", "profile.address");
+      const removed = await updater.removeFields(["legacy", "temp"]);
+
+      expect(renamed.successCount).toBe(1);
+      expect(renamed.skippedCount).toBe(1);
+      expect(removed.successCount).toBe(1);
+      expect(await read(`${collection}/a`)).toEqual({
+        displayName: "kim",
+        profile: { address: { city: "Seoul" } },
+      });
+      expect(await read(`${collection}/b`)).toEqual({ other: true });
+    });
+  }
+);
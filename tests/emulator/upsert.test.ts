@@ -0,0 +1,63 @@
+import { beforeAll, expect, it } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { BatchUpdater } from "../../src";
+import {
+  createFirestore,
+  describeEmulator,
+  seed,
+  uniqueCollection,
+} from "./helpers";
+
+describeEmulator("upsert() with documents", { timeout: 60000 }, () => {
+  let firestore: Firestore;
+
+  beforeAll(() => {
+    firestore = createFirestore();
+  });
+
+  const read = async (path: string) => (await firestore.doc(path).get()).data();
+
+  it("merges into existing documents and creates missing ones", async () => {
+    const collection = uniqueCollection("upsert-docs");
+    await firestore
+      .doc(`${collection}/a`)
+      .set({ name: "A", profile: { city: "Seoul", zip: "04524" } });
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .upsert([
+        { id: "a", data: { profile: { city: "Busan" } } },
+        { id: "b", data: { name: "B" } },
+      ]);
+
+    expect(result.successCount).toBe(2);
+    expect(result.createdCount).toBe(1);
+    expect(result.updatedCount).toBe(1);
+    expect(await read(`${collection}/a`)).toEqual({
+      name: "A",
+      profile: { city: "Busan", zip: "04524" },
+    });
+    expect(await read(`${collection}/b`)).toEqual({ name: "B" });
+  });
+
+  it("counts created and updated documents across chunks", async () => {
+    const collection = uniqueCollection("upsert-chunks");
+    await seed(firestore, collection, 300);
+    const documents = Array.from({ length: 600 }, (_, i) => ({
+      id: `d${String(i).padStart(4, "0")}`,
+      data: { seen: true },
+    }));
+
+    const result = await new BatchUpdater(firestore)
+      .collection(collection)
+      .upsert(documents);
+
+    expect(result.successCount).toBe(600);
+    expect(result.createdCount).toBe(300);
+    expect(result.updatedCount).toBe(300);
+    expect(await read(`${collection}/d0299`)).toEqual({
+      index: 299,
+      seen: true,
+    });
+  });
+});
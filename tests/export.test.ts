@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { Readable } from "stream";
+import { Firestore, Timestamp } from "firebase-admin/firestore";
+import { formatCsvRow, toCsvCells, toExportRecord } from "../src/utils/export";
+import { readRecords, toImportDocument } from "../src/utils/import";
+
+const firestore = new Firestore({ projectId: "export-test" });
+
+describe("toExportRecord", () => {
+  it("writes the ID and encodes each field", () => {
+    const record = toExportRecord(
+      "u1",
+      { name: "Kim", at: new Timestamp(10, 5), tags: ["a"] },
+      "id"
+    );
+
+    expect(record).toEqual({
+      id: "u1",
+      name: "Kim",
+      at: { __type: "timestamp", seconds: 10, nanoseconds: 5 },
+      tags: ["a"],
+    });
+  });
+
+  it("refuses documents that already have the ID field", () => {
+    expect(() => toExportRecord("u1", { id: 1 }, "id")).toThrow(
+      'Document "u1" has a field named "id". Choose another idField'
+    );
+  });
+});
+
+describe("toCsvCells", () => {
+  const record = toExportRecord(
+    "u1",
+    {
+      address: { zip: "123", geo: { lat: 1 } },
+      empty: {},
+      tags: ["a", "b"],
+      note: "[not json]",
+      missing: null,
+      count: 3,
+      active: false,
+      label: "42",
+      blank: "",
+    },
+    "id"
+  );
+
+  it("flattens nested maps into dotted columns", () => {
+    expect(toCsvCells(record)).toEqual({
+      id: "u1",
+      "address.zip": '"123"',
+      "address.geo.lat": "1",
+      empty: "{}",
+      tags: '["a","b"]',
+      note: '"[not json]"',
+      missing: "null",
+      count: "3",
+      active: "false",
+      label: '"42"',
+      blank: '""',
+    });
+  });
+
+  it("writes maps deeper than maxDepth as JSON", () => {
+    expect(toCsvCells(record, 1)["address.geo"]).toBe('{"lat":1}');
+    expect(toCsvCells(record, 0).address).toBe('{"zip":"123","geo":{"lat":1}}');
+  });
+
+  it("writes tagged values as JSON", () => {
+    const cells = toCsvCells(toExportRecord("u1", { at: new Date(0) }, "id"));
+
+    expect(JSON.parse(cells.at)).toEqual({
+      __type: "date",
+      value: "1970-01-01T00:00:00.000Z",
+    });
+  });
+});
+
+describe("formatCsvRow", () => {
+  it("quotes cells that need it", () => {
+    expect(formatCsvRow(["a", "b,c", 'say "hi"', "x\ny"])).toBe(
+      'a,"b,c","say ""hi""","x\ny"'
+    );
+    expect(formatCsvRow(["a;b", "c,d"], ";")).toBe('"a;b";c,d');
+  });
+});
+
+describe("CSV export and import", () => {
+  it("restores the exported document", async () => {
+    const data = {
+      name: 'Kim, "J"',
+      note: "{braces}",
+      address: { zip: "00123" },
+      at: new Timestamp(10, 0),
+      tags: [1, 2],
+      count: 3,
+      ratio: 0.25,
+      active: true,
+      deleted: null,
+      label: "42",
+      flag: "true",
+      blank: "",
+    };
+    const cells = toCsvCells(toExportRecord("u1", data, "id"));
+    const columns = Object.keys(cells);
+    const text =
+      formatCsvRow(columns) +
+      "\n" +
+      formatCsvRow(columns.map((column) => cells[column])) +
+      "\n";
+
+    const records = [];
+    for await (const record of readRecords(Readable.from([text]), "csv")) {
+      records.push(record);
+    }
+    const doc = toImportDocument(
+      records[0].record!,
+      { idField: "id" },
+      firestore,
+      true
+    );
+
+    expect(doc.id).toBe("u1");
+    expect(doc.data).toEqual({ ...data, at: expect.anything() });
+    expect(doc.data.at.isEqual(data.at)).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { FieldValue, Firestore } from "firebase-admin/firestore";
+import {
+  moveFieldTransform,
+  removeFieldsTransform,
+  renameFieldTransform,
+} from "../src/utils/field-ops";
+import { mergeUpdateData } from "../src/utils";
+
+const ref = new Firestore({ projectId: "field-ops-test" }).doc("users/u1");
+
+describe("mergeUpdateData", () => {
+  it("applies dot-separated keys as nested field paths", () => {
+    const merged = mergeUpdateData(
+      { profile: { name: "Kim", age: 30 }, n: 1 },
+      { "profile.age": 31, "settings.theme": "dark" }
+    );
+
+    expect(merged).toEqual({
+      profile: { name: "Kim", age: 31 },
+      settings: { theme: "dark" },
+      n: 1,
+    });
+  });
+
+  it("removes fields set to FieldValue.delete()", () => {
+    const merged = mergeUpdateData(
+      { a: 1, profile: { name: "Kim", age: 30 } },
+      { a: FieldValue.delete(), "profile.age": FieldValue.delete() }
+    );
+
+    expect(merged).toEqual({ profile: { name: "Kim" } });
+  });
+
+  it("replaces non-map values on the way down", () => {
+    expect(mergeUpdateData({ a: 5, b: [1] }, { "a.x": 1, "b.y": 2 })).toEqual({
+      a: { x: 1 },
+      b: { y: 2 },
+    });
+  });
+
+  it("does not modify the existing data", () => {
+    const existing = { profile: { name: "Kim" } };
+    mergeUpdateData(existing, {
+      "profile.name": "Lee",
+      profile2: FieldValue.delete(),
+    });
+
+    expect(existing).toEqual({ profile: { name: "Kim" } });
+  });
+});
+
+describe("field transforms", () => {
+  it("renames a field under the same parent", () => {
+    const transform = renameFieldTransform("profile.userName", "displayName");
+
+    expect(transform({ profile: { userName: "kim" } }, ref)).toEqual({
+      "profile.displayName": "kim",
+      "profile.userName": FieldValue.delete(),
+    });
+    expect(transform({ profile: {} }, ref)).toBeNull();
+  });
+
+  it("moves a field to another path", () => {
+    const update = moveFieldTransform("address", "profile.address")(
+      { address: { zip: "123" } },
+      ref
+    );
+
+    expect(mergeUpdateData({ address: { zip: "123" } }, update!)).toEqual({
+      profile: { address: { zip: "123" } },
+    });
+  });
+
+  it("removes only fields that exist", () => {
+    const transform = removeFieldsTransform(["a", "b.c"]);
+
+    expect(transform({ b: { c: 1 } }, ref)).toEqual({
+      "b.c": FieldValue.delete(),
+    });
+    expect(transform({ x: 1 }, ref)).toBeNull();
+  });
+
+  it("refuses invalid paths", () => {
+    expect(() => renameFieldTransform("a", "b.c")).toThrow(
+      'New field name must not contain "."'
+    );
+    expect(() => moveFieldTransform("a", "a.b")).toThrow(
+      "one path contains the other"
+    );
+    expect(() => moveFieldTransform("a", "a")).toThrow(
+      "Source and destination are the same field"
+    );
+    expect(() => removeFieldsTransform(["a..b"])).toThrow(
+      'Invalid field path: "a..b"'
+    );
+    expect(() => removeFieldsTransform([])).toThrow(
+      "Fields array must be non-empty"
+    );
+  });
+});
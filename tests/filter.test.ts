@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import { GeoPoint, Timestamp } from "firebase-admin/firestore";
+import {
+  and,
+  cloneCondition,
+  getFieldValue,
+  isEqualValue,
+  matchesConditions,
+  or,
+  uniqueValues,
+} from "../src/utils/filter";
+
+describe("or() / and()", () => {
+  it("builds condition groups", () => {
+    const condition = or(
+      { field: "a", operator: "==", value: 1 },
+      and({ field: "b", operator: ">", value: 2 })
+    );
+
+    expect(condition).toEqual({
+      type: "or",
+      conditions: [
+        { field: "a", operator: "==", value: 1 },
+        { type: "and", conditions: [{ field: "b", operator: ">", value: 2 }] },
+      ],
+    });
+  });
+
+  it("refuses empty groups", () => {
+    expect(() => or()).toThrow("or() requires at least one condition");
+    expect(() => and()).toThrow("and() requires at least one condition");
+  });
+});
+
+describe("cloneCondition", () => {
+  it("copies and freezes value lists", () => {
+    const values = [1, 2];
+    const clone = cloneCondition({ field: "a", operator: "in", value: values });
+    values.push(3);
+
+    expect(clone).toEqual({ field: "a", operator: "in", value: [1, 2] });
+    expect(Object.isFrozen(clone)).toBe(true);
+    expect(Object.isFrozen((clone as { value: number[] }).value)).toBe(true);
+  });
+});
+
+describe("isEqualValue", () => {
+  it("compares Firestore types with isEqual()", () => {
+    expect(
+      isEqualValue(Timestamp.fromMillis(1000), Timestamp.fromMillis(1000))
+    ).toBe(true);
+    expect(isEqualValue(new GeoPoint(1, 2), new GeoPoint(1, 3))).toBe(false);
+  });
+
+  it("compares Dates and Timestamps by milliseconds", () => {
+    expect(isEqualValue(new Date(1000), Timestamp.fromMillis(1000))).toBe(true);
+    expect(isEqualValue(new Date(1000), new Date(2000))).toBe(false);
+  });
+
+  it("compares arrays and maps deeply", () => {
+    expect(isEqualValue({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(isEqualValue({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+    expect(isEqualValue([1], { 0: 1 })).toBe(false);
+    expect(isEqualValue(null, {})).toBe(false);
+  });
+});
+
+describe("uniqueValues", () => {
+  it("keeps the first of each repeated value in order", () => {
+    expect(uniqueValues([3, 1, 3, { a: 1 }, { a: 1 }, 2, 1])).toEqual([
+      3,
+      1,
+      { a: 1 },
+      2,
+    ]);
+  });
+
+  it("treats equal Timestamps as duplicates", () => {
+    const values = uniqueValues([
+      Timestamp.fromMillis(5),
+      Timestamp.fromMillis(5),
+    ]);
+    expect(values).toHaveLength(1);
+  });
+});
+
+describe("getFieldValue", () => {
+  it("reads nested fields with dot notation", () => {
+    const data = { profile: { name: "Kim", tags: ["a"] }, n: 0 };
+
+    expect(getFieldValue(data, "profile.name")).toBe("Kim");
+    expect(getFieldValue(data, "n")).toBe(0);
+    expect(getFieldValue(data, "profile.name.first")).toBeUndefined();
+    expect(getFieldValue(data, "missing.field")).toBeUndefined();
+  });
+});
+
+describe("matchesConditions", () => {
+  const data = {
+    age: 30,
+    name: "Lee",
+    tags: ["admin", "beta"],
+    createdAt: Timestamp.fromMillis(2000),
+  };
+
+  it("applies comparison operators", () => {
+    expect(
+      matchesConditions(data, [
+        { field: "age", operator: ">=", value: 30 },
+        { field: "age", operator: "<", value: 31 },
+        { field: "name", operator: "!=", value: "Park" },
+      ])
+    ).toBe(true);
+    expect(
+      matchesConditions(data, [{ field: "age", operator: ">", value: 30 }])
+    ).toBe(false);
+  });
+
+  it("does not order values of different types", () => {
+    expect(
+      matchesConditions(data, [{ field: "age", operator: "<", value: "40" }])
+    ).toBe(false);
+    expect(
+      matchesConditions(data, [{ field: "age", operator: ">=", value: "1" }])
+    ).toBe(false);
+  });
+
+  it("compares Timestamps with Dates", () => {
+    expect(
+      matchesConditions(data, [
+        { field: "createdAt", operator: ">", value: new Date(1000) },
+      ])
+    ).toBe(true);
+  });
+
+  it("never matches documents without the field", () => {
+    expect(
+      matchesConditions(data, [{ field: "missing", operator: "!=", value: 1 }])
+    ).toBe(false);
+    expect(
+      matchesConditions(data, [
+        { field: "missing", operator: "not-in", value: [1] },
+      ])
+    ).toBe(false);
+  });
+
+  it("applies list and array operators", () => {
+    expect(
+      matchesConditions(data, [
+        { field: "name", operator: "in", value: ["Kim", "Lee"] },
+        { field: "age", operator: "not-in", value: [20, 40] },
+        { field: "tags", operator: "array-contains", value: "beta" },
+        {
+          field: "tags",
+          operator: "array-contains-any",
+          value: ["x", "admin"],
+        },
+      ])
+    ).toBe(true);
+    expect(
+      matchesConditions(data, [
+        { field: "name", operator: "array-contains", value: "Lee" },
+      ])
+    ).toBe(false);
+  });
+
+  it("evaluates nested AND/OR groups", () => {
+    const condition = or(
+      { field: "age", operator: "<", value: 18 },
+      and(
+        { field: "name", operator: "==", value: "Lee" },
+        { field: "tags", operator: "array-contains", value: "admin" }
+      )
+    );
+
+    expect(matchesConditions(data, [condition])).toBe(true);
+    expect(matchesConditions({ ...data, name: "Kim" }, [condition])).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, expect, it } from "vitest";
+import { Readable } from "stream";
+import { Firestore, GeoPoint, Timestamp } from "firebase-admin/firestore";
+import {
+  coerceValue,
+  inferRecordFormat,
+  readRecords,
+  toImportDocument,
+} from "../src/utils/import";
+import type { SourceRecord } from "../src/utils/import";
+import type { RecordFormat } from "../src/types";
+
+const firestore = new Firestore({ projectId: "import-test" });
+
+/**
+ * Read every record of a text split into chunks of the given size
+ */
+async function read(
+  text: string,
+  format: RecordFormat,
+  chunkSize = 3,
+  delimiter?: string
+): Promise<SourceRecord[]> {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    chunks.push(text.slice(i, i + chunkSize));
+  }
+
+  const records: SourceRecord[] = [];
+  for await (const record of readRecords(
+    Readable.from(chunks),
+    format,
+    delimiter
+  )) {
+    records.push(record);
+  }
+  return records;
+}
+
+describe("inferRecordFormat", () => {
+  it("maps extensions to formats", () => {
+    expect(inferRecordFormat("a.ndjson")).toBe("ndjson");
+    expect(inferRecordFormat("a.JSONL")).toBe("ndjson");
+    expect(inferRecordFormat("dir/a.json")).toBe("json");
+    expect(inferRecordFormat("a.csv")).toBe("csv");
+    expect(() => inferRecordFormat("a.txt")).toThrow("Cannot infer the format");
+  });
+});
+
+describe("readRecords", () => {
+  it("reads NDJSON lines and reports invalid ones", async () => {
+    const records = await read('{"a":1}\n\n[1]\n{"b":\n{"c":3}', "ndjson");
+
+    expect(records).toEqual([
+      { line: 1, raw: '{"a":1}', record: { a: 1 } },
+      { line: 3, raw: "[1]", error: "Record must be a JSON object" },
+      expect.objectContaining({ line: 4, raw: '{"b":' }),
+      { line: 5, raw: '{"c":3}', record: { c: 3 } },
+    ]);
+    expect(records[2].error).toMatch(/^Invalid JSON/);
+  });
+
+  it("reads JSON array elements across chunks", async () => {
+    const records = await read(
+      '[\n  {"a": "x,]"},\n  {"b": [1, {"c": 2}]},\n  5\n]\n',
+      "json"
+    );
+
+    expect(records.map((r) => [r.line, r.record ?? r.error])).toEqual([
+      [2, { a: "x,]" }],
+      [3, { b: [1, { c: 2 }] }],
+      [4, "Record must be a JSON object"],
+    ]);
+  });
+
+  it("refuses files that are not a JSON array", async () => {
+    await expect(read('{"a":1}', "json")).rejects.toThrow(
+      "JSON file must contain an array of records"
+    );
+    await expect(read('[{"a":1}', "json")).rejects.toThrow(
+      "Unexpected end of JSON array"
+    );
+    await expect(read("[] x", "json")).rejects.toThrow(
+      "Unexpected content after the JSON array"
+    );
+  });
+
+  it("reads CSV rows with quoted fields", async () => {
+    const records = await read(
+      'id,name,note\r\n1,"Kim, J","say ""hi""\nagain"\n\n2,Lee\n3,Park,\n',
+      "csv"
+    );
+
+    expect(records).toEqual([
+      {
+        line: 2,
+        raw: '1,"Kim, J","say ""hi""\nagain"',
+        record: { id: "1", name: "Kim, J", note: 'say "hi"\nagain' },
+      },
+      { line: 5, raw: "2,Lee", error: "Expected 3 columns but found 2" },
+      { line: 6, raw: "3,Park,", record: { id: "3", name: "Park", note: "" } },
+    ]);
+  });
+
+  it("uses the given CSV delimiter", async () => {
+    const records = await read("a;b\n1;2", "csv", 100, ";");
+
+    expect(records[0].record).toEqual({ a: "1", b: "2" });
+  });
+
+  it("reports an unterminated quoted field", async () => {
+    const records = await read('a\n"open', "csv");
+
+    expect(records).toEqual([
+      { line: 2, raw: '"open', error: "Unterminated quoted field" },
+    ]);
+  });
+
+  it("refuses a CSV header with duplicate columns", async () => {
+    await expect(read("a,a\n1,2", "csv")).rejects.toThrow(
+      "CSV header must have unique, non-empty column names"
+    );
+  });
+});
+
+describe("toImportDocument", () => {
+  it("takes the ID from idField and maps columns to field paths", () => {
+    const doc = toImportDocument(
+      { sku: "A1", name: "Pen", zip: "123", price: "2.5", note: "" },
+      {
+        idField: "sku",
+        columns: { name: "info.title" },
+        types: { price: "number", zip: "string" },
+      },
+      firestore,
+      true
+    );
+
+    expect(doc).toEqual({
+      id: "A1",
+      data: { info: { title: "Pen" }, zip: "123", price: 2.5 },
+    });
+  });
+
+  it("decodes number, boolean and null literals in CSV cells", () => {
+    const doc = toImportDocument(
+      { count: "3", ratio: "-1.5e-3", active: "true", deleted: "null" },
+      {},
+      firestore,
+      true
+    );
+
+    expect(doc.data).toEqual({
+      count: 3,
+      ratio: -0.0015,
+      active: true,
+      deleted: null,
+    });
+  });
+
+  it("keeps CSV cells of string columns as written", () => {
+    const doc = toImportDocument(
+      { code: "1e3", zip: "007", label: '"quoted"' },
+      { types: { code: "string", zip: "string", label: "string" } },
+      firestore,
+      true
+    );
+
+    expect(doc.data).toEqual({ code: "1e3", zip: "007", label: "quoted" });
+  });
+
+  it("decodes tagged JSON values", () => {
+    const doc = toImportDocument(
+      { at: { __type: "timestamp", seconds: 10, nanoseconds: 0 }, "a.b": 1 },
+      {},
+      firestore,
+      false
+    );
+
+    expect(doc.data.at.isEqual(new Timestamp(10, 0))).toBe(true);
+    expect(doc.data["a.b"]).toBe(1);
+  });
+
+  it("refuses records without an ID or fields", () => {
+    expect(() =>
+      toImportDocument({ a: 1 }, { idField: "id" }, firestore, false)
+    ).toThrow('Missing ID field "id"');
+    expect(() =>
+      toImportDocument({ id: "a/b", a: 1 }, { idField: "id" }, firestore, false)
+    ).toThrow("Invalid document ID");
+    expect(() => toImportDocument({ a: "" }, {}, firestore, true)).toThrow(
+      "Record has no fields to write"
+    );
+  });
+
+  it("names the field whose value cannot be converted", () => {
+    expect(() =>
+      toImportDocument(
+        { n: "abc" },
+        { types: { n: "number" } },
+        firestore,
+        true
+      )
+    ).toThrow('Field "n": Expected a number but got "abc"');
+  });
+});
+
+describe("coerceValue", () => {
+  it("converts strings to the requested types", () => {
+    expect(coerceValue("1", "boolean", firestore)).toBe(true);
+    expect(coerceValue("FALSE", "boolean", firestore)).toBe(false);
+    expect(coerceValue(5, "string", firestore)).toBe("5");
+    expect(
+      coerceValue("1970-01-01T00:00:01Z", "timestamp", firestore).toMillis()
+    ).toBe(1000);
+    expect(
+      coerceValue("37.5, 127", "geopoint", firestore).isEqual(
+        new GeoPoint(37.5, 127)
+      )
+    ).toBe(true);
+    expect(coerceValue("users/u1", "reference", firestore).path).toBe(
+      "users/u1"
+    );
+    expect(coerceValue('{"a":[1]}', "json", firestore)).toEqual({ a: [1] });
+  });
+
+  it("keeps null", () => {
+    expect(coerceValue(null, "number", firestore)).toBeNull();
+  });
+
+  it("refuses values that cannot be converted", () => {
+    expect(() => coerceValue(" ", "number", firestore)).toThrow(
+      "Expected a number"
+    );
+    expect(() => coerceValue("yes", "boolean", firestore)).toThrow(
+      "Expected a boolean"
+    );
+    expect(() => coerceValue("soon", "timestamp", firestore)).toThrow(
+      "Expected a date or milliseconds"
+    );
+    expect(() => coerceValue("1", "geopoint", firestore)).toThrow(
+      'Expected "latitude,longitude"'
+    );
+    expect(() => coerceValue(1, "reference", firestore)).toThrow(
+      "Expected a document path"
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import type { FilterCondition } from "../src";
+import { or } from "../src/utils/filter";
+import { filterSubQueryDocs, planConditions } from "../src/utils/query-plan";
+
+const range = (count: number, start = 0) =>
+  Array.from({ length: count }, (_, i) => start + i);
+
+describe("planConditions", () => {
+  it("keeps conditions within the limits in one query", () => {
+    const conditions: FilterCondition[] = [
+      { field: "status", operator: "==", value: "open" },
+      { field: "id", operator: "in", value: range(30) },
+      or({ field: "a", operator: "==", value: 1 }),
+    ];
+
+    expect(planConditions(conditions)).toEqual({
+      combinations: [conditions],
+      excluded: [],
+      disjoint: true,
+    });
+  });
+
+  it("splits long in lists into disjoint chunks of 30", () => {
+    const plan = planConditions([
+      { field: "status", operator: "==", value: "open" },
+      { field: "id", operator: "in", value: range(65) },
+    ]);
+
+    expect(plan.disjoint).toBe(true);
+    expect(plan.combinations).toEqual([
+      [
+        { field: "status", operator: "==", value: "open" },
+        { field: "id", operator: "in", value: range(30) },
+      ],
+      [
+        { field: "status", operator: "==", value: "open" },
+        { field: "id", operator: "in", value: range(30, 30) },
+      ],
+      [
+        { field: "status", operator: "==", value: "open" },
+        { field: "id", operator: "in", value: range(5, 60) },
+      ],
+    ]);
+  });
+
+  it("removes repeated values before chunking", () => {
+    const plan = planConditions([
+      { field: "id", operator: "in", value: [...range(31), ...range(31)] },
+    ]);
+
+    expect(plan.combinations.map((c) => (c[0] as any).value.length)).toEqual([
+      30, 1,
+    ]);
+  });
+
+  it("marks array-contains-any chunks as overlapping", () => {
+    const plan = planConditions([
+      { field: "tags", operator: "array-contains-any", value: range(31) },
+    ]);
+
+    expect(plan.combinations).toHaveLength(2);
+    expect(plan.disjoint).toBe(false);
+  });
+
+  it("sends the first 10 not-in values and returns the rest", () => {
+    const plan = planConditions([
+      { field: "id", operator: "not-in", value: range(12) },
+    ]);
+
+    expect(plan.combinations).toEqual([
+      [{ field: "id", operator: "not-in", value: range(10) }],
+    ]);
+    expect(plan.excluded).toEqual([{ field: "id", values: [10, 11] }]);
+  });
+
+  it("refuses a second list that would have to be split", () => {
+    expect(() =>
+      planConditions([
+        { field: "id", operator: "in", value: range(300) },
+        { field: "tags", operator: "array-contains-any", value: range(31) },
+      ])
+    ).toThrow(
+      'Only one "in" or "array-contains-any" condition can have more than 30 values ("id" and "tags")'
+    );
+  });
+});
+
+describe("filterSubQueryDocs", () => {
+  const doc = (path: string) => ({ ref: { path } });
+
+  it("returns pages of disjoint plans unchanged", () => {
+    const docs = [doc("a/1"), doc("a/1")];
+    const seen = new Set<string>();
+
+    expect(filterSubQueryDocs(docs, true, [], seen)).toBe(docs);
+    expect(seen.size).toBe(0);
+  });
+
+  it("drops documents returned by an earlier sub-query", () => {
+    const seen = new Set<string>();
+
+    expect(
+      filterSubQueryDocs([doc("a/1"), doc("a/2")], false, [], seen)
+    ).toEqual([doc("a/1"), doc("a/2")]);
+    expect(
+      filterSubQueryDocs([doc("a/2"), doc("a/3")], false, [], seen)
+    ).toEqual([doc("a/3")]);
+  });
+
+  it("applies post filters", () => {
+    const docs = [doc("a/1"), doc("a/2")];
+
+    expect(
+      filterSubQueryDocs(docs, true, [(d) => d.ref.path !== "a/1"], new Set())
+    ).toEqual([doc("a/2")]);
+  });
+});
@@ -0,0 +1,189 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import {
+  getErrorCode,
+  isIdempotentData,
+  resolveRetryPolicy,
+  retryDelay,
+  shouldRetryWrite,
+} from "../src/utils/retry";
+
+const DEADLINE_EXCEEDED = 4;
+const INVALID_ARGUMENT = 3;
+const UNAVAILABLE = 14;
+
+/**
+ * Failed write on the given attempt
+ */
+function failure(code: number | undefined, attempt = 1) {
+  return { path: "users/u1", code, message: "failed", attempt };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("resolveRetryPolicy", () => {
+  it("makes a single attempt without retry options", () => {
+    expect(resolveRetryPolicy().maxAttempts).toBe(1);
+    expect(shouldRetryWrite(resolveRetryPolicy(), failure(UNAVAILABLE))).toBe(
+      false
+    );
+  });
+
+  it("applies the defaults", () => {
+    const policy = resolveRetryPolicy({});
+
+    expect(policy).toMatchObject({
+      maxAttempts: 5,
+      initialDelayMs: 500,
+      maxDelayMs: 30000,
+      backoffFactor: 2,
+      jitter: 0.2,
+    });
+    expect([...policy.retryableCodes].sort((a, b) => a - b)).toEqual([
+      4, 8, 10, 13, 14,
+    ]);
+    expect([...policy.idempotentOnlyCodes].sort((a, b) => a - b)).toEqual([
+      4, 13,
+    ]);
+  });
+
+  it("refuses invalid options", () => {
+    expect(() => resolveRetryPolicy({ maxAttempts: 0 })).toThrow(
+      "retry.maxAttempts must be a positive integer"
+    );
+    expect(() => resolveRetryPolicy({ initialDelayMs: -1 })).toThrow(
+      "retry delays must be non-negative numbers"
+    );
+    expect(() => resolveRetryPolicy({ backoffFactor: 0.5 })).toThrow(
+      "retry.backoffFactor must be at least 1"
+    );
+    expect(() => resolveRetryPolicy({ jitter: 2 })).toThrow(
+      "retry.jitter must be between 0 and 1"
+    );
+    expect(() =>
+      resolveRetryPolicy({ retryableCodes: ["NOPE" as any] })
+    ).toThrow('Invalid retryable code: "NOPE"');
+    expect(() => resolveRetryPolicy({ shouldRetry: 1 as any })).toThrow(
+      "retry.shouldRetry must be a function"
+    );
+  });
+});
+
+describe("shouldRetryWrite", () => {
+  it("retries retryable codes until maxAttempts", () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 3 });
+
+    expect(shouldRetryWrite(policy, failure(UNAVAILABLE, 2))).toBe(true);
+    expect(shouldRetryWrite(policy, failure(UNAVAILABLE, 3))).toBe(false);
+    expect(shouldRetryWrite(policy, failure(INVALID_ARGUMENT))).toBe(false);
+    expect(shouldRetryWrite(policy, failure(undefined))).toBe(false);
+  });
+
+  it("retries ambiguous codes by default only for idempotent writes", () => {
+    const policy = resolveRetryPolicy({});
+
+    expect(shouldRetryWrite(policy, failure(DEADLINE_EXCEEDED), true)).toBe(
+      true
+    );
+    expect(shouldRetryWrite(policy, failure(DEADLINE_EXCEEDED), false)).toBe(
+      false
+    );
+    expect(shouldRetryWrite(policy, failure(UNAVAILABLE), false)).toBe(true);
+  });
+
+  it("retries ambiguous codes for every write once they are listed", () => {
+    const policy = resolveRetryPolicy({
+      retryableCodes: ["DEADLINE_EXCEEDED"],
+    });
+
+    expect(shouldRetryWrite(policy, failure(DEADLINE_EXCEEDED), false)).toBe(
+      true
+    );
+    expect(shouldRetryWrite(policy, failure(UNAVAILABLE))).toBe(false);
+  });
+
+  it("asks shouldRetry with the retryable flag", () => {
+    const shouldRetry = vi.fn(() => true);
+    const policy = resolveRetryPolicy({ shouldRetry });
+
+    expect(shouldRetryWrite(policy, failure(INVALID_ARGUMENT))).toBe(true);
+    expect(shouldRetry).toHaveBeenCalledWith({
+      ...failure(INVALID_ARGUMENT),
+      retryable: false,
+    });
+  });
+
+  it("does not call shouldRetry once maxAttempts is reached", () => {
+    const shouldRetry = vi.fn(() => true);
+    const policy = resolveRetryPolicy({ maxAttempts: 2, shouldRetry });
+
+    expect(shouldRetryWrite(policy, failure(UNAVAILABLE, 2))).toBe(false);
+    expect(shouldRetry).not.toHaveBeenCalled();
+  });
+
+  it("does not retry when shouldRetry throws", () => {
+    const policy = resolveRetryPolicy({
+      shouldRetry: () => {
+        throw new Error("boom");
+      },
+    });
+
+    expect(shouldRetryWrite(policy, failure(UNAVAILABLE))).toBe(false);
+  });
+});
+
+describe("retryDelay", () => {
+  it("grows exponentially up to maxDelayMs", () => {
+    const policy = resolveRetryPolicy({
+      initialDelayMs: 100,
+      maxDelayMs: 1000,
+      jitter: 0,
+    });
+
+    expect(
+      [1, 2, 3, 4, 5].map((attempt) => retryDelay(policy, attempt))
+    ).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it("varies each delay by the jitter", () => {
+    const policy = resolveRetryPolicy({ initialDelayMs: 100, jitter: 0.5 });
+
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(retryDelay(policy, 1)).toBe(50);
+    vi.spyOn(Math, "random").mockReturnValue(0.999999);
+    expect(retryDelay(policy, 1)).toBe(150);
+  });
+});
+
+describe("isIdempotentData", () => {
+  it("flags increments at any depth", () => {
+    expect(isIdempotentData({ n: FieldValue.increment(1) })).toBe(false);
+    expect(isIdempotentData({ a: { b: FieldValue.increment(-2) } })).toBe(
+      false
+    );
+  });
+
+  it("accepts plain values and other sentinels", () => {
+    expect(
+      isIdempotentData({
+        a: 1,
+        b: { c: [1, 2] },
+        at: Timestamp.now(),
+        removed: FieldValue.delete(),
+        tags: FieldValue.arrayUnion("x"),
+        updatedAt: FieldValue.serverTimestamp(),
+      })
+    ).toBe(true);
+  });
+});
+
+describe("getErrorCode", () => {
+  it("reads numeric codes only", () => {
+    expect(getErrorCode({ code: 14 })).toBe(14);
+    expect(getErrorCode({ code: "unavailable" })).toBeUndefined();
+    expect(getErrorCode(null)).toBeUndefined();
+    expect(getErrorCode(new Error("x"))).toBeUndefined();
+  });
+});
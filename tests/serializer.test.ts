@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  FieldValue,
+  Firestore,
+  GeoPoint,
+  Timestamp,
+} from "firebase-admin/firestore";
+import {
+  decodeConditions,
+  decodeValue,
+  encodeConditions,
+  encodeValue,
+} from "../src/utils/serializer";
+import { or } from "../src/utils/filter";
+
+const firestore = new Firestore({ projectId: "serializer-test" });
+
+/**
+ * Encode a value, pass it through JSON text and decode it again
+ */
+function roundTrip(value: any): any {
+  return decodeValue(JSON.parse(JSON.stringify(encodeValue(value))), firestore);
+}
+
+describe("encodeValue / decodeValue", () => {
+  it("keeps plain JSON values as they are", () => {
+    const value = { a: 1, b: "x", c: [true, null], d: { e: 2 } };
+
+    expect(encodeValue(value)).toEqual(value);
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it("restores Firestore types", () => {
+    const timestamp = new Timestamp(1700000000, 123);
+    const geoPoint = new GeoPoint(37.5, 127);
+    const ref = firestore.doc("users/u1");
+
+    expect(roundTrip(timestamp).isEqual(timestamp)).toBe(true);
+    expect(roundTrip(geoPoint).isEqual(geoPoint)).toBe(true);
+    expect(roundTrip(ref).isEqual(ref)).toBe(true);
+    expect(roundTrip(new Date(5000))).toEqual(new Date(5000));
+    expect(roundTrip(Buffer.from("bytes"))).toEqual(Buffer.from("bytes"));
+  });
+
+  it("restores numbers JSON cannot hold", () => {
+    expect(roundTrip(NaN)).toBeNaN();
+    expect(roundTrip(Infinity)).toBe(Infinity);
+    expect(roundTrip(-Infinity)).toBe(-Infinity);
+  });
+
+  it("escapes maps that use the tag key", () => {
+    const value = { __type: "timestamp", seconds: 1 };
+
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it("restores every FieldValue sentinel", () => {
+    const sentinels = [
+      FieldValue.delete(),
+      FieldValue.serverTimestamp(),
+      FieldValue.increment(3),
+      FieldValue.arrayUnion("a", Timestamp.fromMillis(1)),
+      FieldValue.arrayRemove(1, 2),
+    ];
+
+    for (const sentinel of sentinels) {
+      expect(roundTrip(sentinel).isEqual(sentinel)).toBe(true);
+    }
+  });
+
+  it("leaves out map fields set to undefined", () => {
+    expect(encodeValue({ a: 1, b: undefined })).toEqual({ a: 1 });
+  });
+
+  it("refuses undefined outside of maps", () => {
+    expect(() => encodeValue(undefined)).toThrow("Cannot serialize undefined");
+    expect(() => encodeValue([1, undefined])).toThrow(
+      "Cannot serialize undefined"
+    );
+  });
+
+  it("refuses values without an encoding", () => {
+    expect(() => encodeValue(() => 1)).toThrow(
+      "Cannot serialize value of type function"
+    );
+  });
+
+  it("refuses unknown tagged values", () => {
+    expect(() => decodeValue({ __type: "unknown" } as any, firestore)).toThrow(
+      "Unknown serialized value"
+    );
+  });
+});
+
+describe("encodeConditions / decodeConditions", () => {
+  it("round-trips nested condition values", () => {
+    const at = Timestamp.fromMillis(1000);
+    const conditions = [
+      { field: "status", operator: "in" as const, value: ["a", "b"] },
+      or(
+        { field: "createdAt", operator: "<" as const, value: at },
+        { field: "owner", operator: "==" as const, value: firestore.doc("u/1") }
+      ),
+    ];
+
+    const decoded = decodeConditions(
+      JSON.parse(JSON.stringify(encodeConditions(conditions))),
+      firestore
+    );
+
+    expect(decoded[0]).toEqual(conditions[0]);
+    const group = decoded[1] as any;
+    expect(group.type).toBe("or");
+    expect(group.conditions[0].value.isEqual(at)).toBe(true);
+    expect(group.conditions[1].value.path).toBe("u/1");
+  });
+});
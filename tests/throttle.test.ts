@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Throttle, validateThrottleOptions } from "../src/utils/throttle";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("validateThrottleOptions", () => {
+  it("accepts valid limits", () => {
+    const limits = {
+      maxOpsPerSecond: 100,
+      initialOpsPerSecond: 50,
+      maxInFlight: 10,
+    };
+
+    expect(validateThrottleOptions(limits)).toBe(limits);
+    expect(validateThrottleOptions({})).toEqual({});
+  });
+
+  it("refuses invalid limits", () => {
+    expect(() => validateThrottleOptions({ maxOpsPerSecond: 0 })).toThrow(
+      "throttle.maxOpsPerSecond must be a positive number"
+    );
+    expect(() => validateThrottleOptions({ initialOpsPerSecond: 1.5 })).toThrow(
+      "throttle.initialOpsPerSecond must be a positive integer"
+    );
+    expect(() =>
+      validateThrottleOptions({ maxOpsPerSecond: 10, initialOpsPerSecond: 20 })
+    ).toThrow(
+      "throttle.initialOpsPerSecond must not exceed throttle.maxOpsPerSecond"
+    );
+    expect(() => validateThrottleOptions({ maxInFlight: -1 })).toThrow(
+      "throttle.maxInFlight must be a positive integer"
+    );
+  });
+});
+
+describe("Throttle", () => {
+  it("passes its rates to BulkWriter", () => {
+    expect(
+      new Throttle({
+        maxOpsPerSecond: 10.5,
+        initialOpsPerSecond: 5,
+      }).bulkWriterOptions()
+    ).toEqual({ throttling: { initialOpsPerSecond: 5, maxOpsPerSecond: 10 } });
+    expect(new Throttle().bulkWriterOptions()).toEqual({ throttling: {} });
+  });
+
+  it("keeps limits that setLimits() does not change", () => {
+    const throttle = new Throttle({ maxOpsPerSecond: 10, maxInFlight: 2 });
+    throttle.setLimits({ maxInFlight: 5 });
+
+    expect(throttle.limits).toEqual({ maxOpsPerSecond: 10, maxInFlight: 5 });
+    expect(() => throttle.setLimits({ maxInFlight: 0 })).toThrow();
+    expect(throttle.limits.maxInFlight).toBe(5);
+  });
+
+  it("spreads operations evenly under maxOpsPerSecond", async () => {
+    const throttle = new Throttle({ maxOpsPerSecond: 10 });
+    const start = Date.now();
+    const done: number[] = [];
+
+    const paced = [throttle.pace(5), throttle.pace(), throttle.pace()].map(
+      (promise) => promise.then(() => done.push(Date.now() - start))
+    );
+    await vi.runAllTimersAsync();
+    await Promise.all(paced);
+
+    expect(done).toEqual([0, 500, 600]);
+  });
+
+  it("does not wait without maxOpsPerSecond", async () => {
+    await expect(new Throttle().pace(1000)).resolves.toBeUndefined();
+  });
+
+  it("holds writes beyond maxInFlight until a slot is released", async () => {
+    const throttle = new Throttle({ maxInFlight: 2 });
+    const flush = vi.fn();
+    let acquired = 0;
+
+    for (let i = 0; i < 3; i++) {
+      void throttle.acquire(flush).then(() => acquired++);
+    }
+    await vi.runAllTimersAsync();
+
+    expect(acquired).toBe(2);
+    expect(flush).toHaveBeenCalledTimes(1);
+
+    throttle.release();
+    await vi.runAllTimersAsync();
+    expect(acquired).toBe(3);
+  });
+
+  it("lets waiting writes through when maxInFlight is raised", async () => {
+    const throttle = new Throttle({ maxInFlight: 1 });
+    let acquired = 0;
+
+    for (let i = 0; i < 3; i++) {
+      void throttle.acquire(() => {}).then(() => acquired++);
+    }
+    await vi.runAllTimersAsync();
+    expect(acquired).toBe(1);
+
+    throttle.setLimits({ maxInFlight: 3 });
+    await vi.runAllTimersAsync();
+    expect(acquired).toBe(3);
+  });
+});
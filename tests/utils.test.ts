@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { chunkArray, chunkString } from "../src/utils";
+
+describe("chunkArray()", () => {
+  it("splits into chunks of at most the given size", () => {
+    expect(chunkArray([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunkArray([1, 2], 2)).toEqual([[1, 2]]);
+  });
+
+  it("returns no chunks for an empty array", () => {
+    expect(chunkArray([], 3)).toEqual([]);
+  });
+});
+
+describe("chunkString()", () => {
+  it("splits into parts of at most the given length", () => {
+    expect(chunkString("abcdefg", 3)).toEqual(["abc", "def", "g"]);
+    expect(chunkString("abc", 3)).toEqual(["abc"]);
+  });
+
+  it("returns one empty part for an empty string", () => {
+    expect(chunkString("", 3)).toEqual([""]);
+  });
+
+  it("never splits a surrogate pair", () => {
+    const value = "ab😀cd😀";
+    const parts = chunkString(value, 3);
+
+    expect(parts).toEqual(["ab", "😀c", "d😀"]);
+    expect(parts.join("")).toBe(value);
+    for (const part of parts) {
+      expect(part.length).toBeLessThanOrEqual(3);
+      expect(part).toBe(Buffer.from(part, "utf8").toString("utf8"));
+    }
+  });
+});